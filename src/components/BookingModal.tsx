@@ -6,9 +6,50 @@ import {
   Users,
   CreditCard,
   CheckCircle,
+  Timer,
+  ShieldCheck,
 } from "lucide-react";
-import { Listing } from "@/lib/mockData";
-import { createBooking } from "@/lib/api";
+import { Listing, SlotHold } from "@/lib/mockData";
+import {
+  authenticatePayment,
+  cancelPayment,
+  confirmPayment,
+  createBooking,
+  createHold,
+  createPaymentIntent,
+  DayAvailability,
+  getListingAvailability,
+  releaseHold,
+} from "@/lib/api";
+import { ApiError, toApiError } from "@/lib/errors";
+import {
+  CardDetails,
+  getPaymentErrorMessage,
+  PaymentErrorCode,
+  PaymentIntent,
+} from "@/lib/payments";
+import {
+  CardField,
+  detectCardBrand,
+  formatCardNumber,
+  formatCvc,
+  formatExpiry,
+  getCardBrandLabel,
+  getCardErrorMessage,
+  validateCard,
+} from "@/lib/cards";
+import {
+  countParticipants,
+  formatPrice,
+  PARTICIPANT_TYPES,
+  ParticipantCounts,
+  ParticipantType,
+  quoteBooking,
+} from "@/lib/pricing";
+import ErrorState from "@/components/ErrorState";
+import PriceBreakdown, {
+  PARTICIPANT_LABELS,
+} from "@/components/PriceBreakdown";
 
 interface BookingModalProps {
   isOpen: boolean;
@@ -20,34 +61,127 @@ interface BookingModalProps {
 interface BookingForm {
   date: string;
   time: string;
-  participants: number;
+  guests: ParticipantCounts;
 }
 
+const INITIAL_GUESTS: ParticipantCounts = { adult: 1, child: 0, student: 0 };
+
 const BookingModal: React.FC<BookingModalProps> = ({
   isOpen,
   onClose,
   listing,
   currentLanguage = "en",
 }) => {
-  const [step, setStep] = useState<"form" | "payment" | "success">("form");
+  const [step, setStep] = useState<"form" | "payment" | "verify" | "success">(
+    "form"
+  );
   const [isLoading, setIsLoading] = useState(false);
+  const [submitError, setSubmitError] = useState<ApiError | null>(null);
+  // Places left per slot; null until loaded
+  const [availability, setAvailability] = useState<DayAvailability[] | null>(
+    null
+  );
+  // Places set aside while on the payment step
+  const [hold, setHold] = useState<SlotHold | null>(null);
+  const [holdExpired, setHoldExpired] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [card, setCard] = useState<CardDetails>({
+    number: "",
+    expiry: "",
+    cvc: "",
+  });
+  // Card fields left at least once; their errors are shown from then on
+  const [cardTouched, setCardTouched] = useState<
+    Partial<Record<CardField, boolean>>
+  >({});
+  // One intent per checkout; a declined card can be retried on it
+  const [paymentIntent, setPaymentIntent] = useState<PaymentIntent | null>(
+    null
+  );
+  const [paymentError, setPaymentError] = useState<PaymentErrorCode | null>(
+    null
+  );
+  const [challengeCode, setChallengeCode] = useState("");
   const [form, setForm] = useState<BookingForm>({
     date: "",
     time: "",
-    participants: 1,
+    guests: INITIAL_GUESTS,
   });
 
+  const refreshAvailability = async (listingId: string) => {
+    try {
+      setAvailability(await getListingAvailability(listingId));
+    } catch (error) {
+      // Booking still works; the server rejects slots that are full
+      console.error("Error loading availability:", error);
+    }
+  };
+
   // Reset form when modal opens/closes
   useEffect(() => {
     if (isOpen) {
       setStep("form");
+      setSubmitError(null);
       setForm({
         date: "",
         time: "",
-        participants: 1,
+        guests: INITIAL_GUESTS,
       });
+      setAvailability(null);
+      setHold(null);
+      setHoldExpired(false);
+      setCard({ number: "", expiry: "", cvc: "" });
+      setCardTouched({});
+      setPaymentIntent(null);
+      setPaymentError(null);
+      if (listing) refreshAvailability(listing.id);
     }
-  }, [isOpen]);
+  }, [isOpen, listing?.id]);
+
+  // Voids the card authorisation, if any, so an abandoned payment isn't left
+  // pending on the card
+  const dropPaymentIntent = () => {
+    setPaymentIntent(null);
+    setPaymentError(null);
+    if (!paymentIntent || paymentIntent.status === "succeeded") return;
+    cancelPayment(paymentIntent.id).catch((error) =>
+      console.error("Error cancelling payment:", error)
+    );
+  };
+
+  // Gives the places back; holds the server doesn't hear about lapse anyway.
+  // The payment is started again for the next hold.
+  const dropHold = () => {
+    dropPaymentIntent();
+    if (!hold) return;
+    releaseHold(hold.id).catch((error) =>
+      console.error("Error releasing hold:", error)
+    );
+    setHold(null);
+  };
+
+  // Countdown for the hold
+  useEffect(() => {
+    if (!hold) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hold]);
+
+  const secondsLeft = hold
+    ? Math.max(0, Math.ceil((Date.parse(hold.expiresAt) - now) / 1000))
+    : 0;
+
+  // Back to the form once the hold runs out, unless a payment is under way
+  useEffect(() => {
+    if (hold && secondsLeft === 0 && !isLoading) {
+      dropHold();
+      setHoldExpired(true);
+      setSubmitError(null);
+      setStep("form");
+      if (listing) refreshAvailability(listing.id);
+    }
+  }, [hold, secondsLeft, isLoading]);
 
   if (!listing) return null;
 
@@ -64,47 +198,204 @@ const BookingModal: React.FC<BookingModalProps> = ({
   );
   const availableSlots = selectedDateAvailability?.slots || [];
 
-  const totalPrice = listing.price * form.participants;
+  const getRemaining = (time: string) =>
+    availability
+      ?.find((day) => day.date === form.date)
+      ?.slots.find((slot) => slot.time === time)?.remaining;
+  const participants = countParticipants(form.guests);
+  const selectedRemaining = form.time ? getRemaining(form.time) : undefined;
+  const hasEnoughPlaces =
+    selectedRemaining === undefined || participants <= selectedRemaining;
 
-  const handleFormSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (form.date && form.time && form.participants > 0) {
-      setStep("payment");
+  const formatRemaining = (remaining: number) => {
+    if (remaining === 0) return currentLanguage === "en" ? "Full" : "Complet";
+    if (currentLanguage === "en") {
+      return `${remaining} ${remaining === 1 ? "spot" : "spots"} left`;
     }
+    return `${remaining} ${
+      remaining === 1 ? "place restante" : "places restantes"
+    }`;
   };
 
-  const handlePaymentSubmit = async (e: React.FormEvent) => {
+  // Same computation as the backend, which has the final say
+  const quote = quoteBooking(listing, form);
+  const totalPrice = quote.total;
+
+  const changeGuests = (type: ParticipantType, delta: number) =>
+    setForm((prev) => ({
+      ...prev,
+      guests: {
+        ...prev.guests,
+        [type]: Math.max(0, prev.guests[type] + delta),
+      },
+    }));
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!form.date || !form.time || participants < 1 || !hasEnoughPlaces) {
+      return;
+    }
+
     setIsLoading(true);
+    setSubmitError(null);
+    setHoldExpired(false);
 
     try {
-      // Simulate payment processing
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      setHold(
+        await createHold({
+          listingId: listing.id,
+          date: form.date,
+          time: form.time,
+          participants,
+        })
+      );
+      setStep("payment");
+    } catch (error) {
+      console.error("Error holding places:", error);
+      const apiError = toApiError(error);
+      setSubmitError(apiError);
+      if (apiError.kind === "conflict") {
+        refreshAvailability(listing.id);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      // Create booking
-      await createBooking({
+  const handleBookingError = (error: unknown) => {
+    console.error("Booking failed:", error);
+    const apiError = toApiError(error);
+    setSubmitError(apiError);
+    // Someone else took the places; show the up-to-date counts
+    if (apiError.kind === "conflict") {
+      refreshAvailability(listing.id);
+    }
+  };
+
+  // Books once the card is authorised: the server captures the payment and
+  // confirms the booking together
+  const handlePaymentResult = async (intent: PaymentIntent) => {
+    setPaymentIntent(intent);
+
+    if (intent.status === "requires_action") {
+      setChallengeCode("");
+      setStep("verify");
+      return;
+    }
+    if (intent.status !== "requires_capture") {
+      setPaymentError(intent.lastError || "card_declined");
+      setStep("payment");
+      return;
+    }
+
+    await createBooking(
+      {
         listingId: listing.id,
         date: form.date,
         time: form.time,
-        participants: form.participants,
-        status: "confirmed",
-        totalPrice,
-      });
+        participants,
+        guests: form.guests,
+        status: "pending",
+      },
+      { holdId: hold?.id, paymentIntentId: intent.id }
+    );
+
+    setHold(null);
+    setPaymentIntent(null);
+    setStep("success");
+  };
+
+  const cardBrand = detectCardBrand(card.number);
+  const cardErrors = validateCard(card);
+  const isCardValid = Object.keys(cardErrors).length === 0;
+
+  const touchCardField = (field: CardField) =>
+    setCardTouched((prev) => ({ ...prev, [field]: true }));
+
+  const visibleCardError = (field: CardField) =>
+    cardTouched[field] ? cardErrors[field] : undefined;
+
+  const getCardInputClassName = (field: CardField) =>
+    `w-full p-3 border ${
+      visibleCardError(field)
+        ? "border-red-400 dark:border-red-500"
+        : "border-gray-200 dark:border-gray-600"
+    } rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-accent focus:border-transparent`;
+
+  const renderCardError = (field: CardField) => {
+    const code = visibleCardError(field);
+    return (
+      code && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+          {getCardErrorMessage(field, code, currentLanguage)}
+        </p>
+      )
+    );
+  };
+
+  const handlePaymentSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isCardValid) {
+      setCardTouched({ number: true, expiry: true, cvc: true });
+      return;
+    }
+    setIsLoading(true);
+    setSubmitError(null);
+    setPaymentError(null);
+
+    try {
+      // Already authorised: only the booking failed, so just retry that.
+      // Confirming the intent again would be rejected.
+      if (paymentIntent?.status === "requires_capture") {
+        await handlePaymentResult(paymentIntent);
+        return;
+      }
 
-      setStep("success");
+      const intent =
+        paymentIntent ||
+        (await createPaymentIntent(totalPrice, quote.currency));
+      setPaymentIntent(intent);
+      await handlePaymentResult(await confirmPayment(intent.id, card));
     } catch (error) {
-      console.error("Booking failed:", error);
-      // Handle error (you could show an error message here)
+      handleBookingError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!paymentIntent) return;
+    setIsLoading(true);
+    setSubmitError(null);
+
+    try {
+      // The challenge already passed and only the booking failed; the intent
+      // can't be authenticated twice
+      if (paymentIntent.status === "requires_capture") {
+        await handlePaymentResult(paymentIntent);
+        return;
+      }
+
+      await handlePaymentResult(
+        await authenticatePayment(paymentIntent.id, challengeCode.trim())
+      );
+    } catch (error) {
+      handleBookingError(error);
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleClose = () => {
+    dropHold();
     setStep("form");
     onClose();
   };
 
+  const formatCountdown = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString(
@@ -144,6 +435,8 @@ const BookingModal: React.FC<BookingModalProps> = ({
                     : "Réserver l'Expérience")}
                 {step === "payment" &&
                   (currentLanguage === "en" ? "Payment" : "Paiement")}
+                {step === "verify" &&
+                  (currentLanguage === "en" ? "Verification" : "Vérification")}
                 {step === "success" &&
                   (currentLanguage === "en"
                     ? "Booking Confirmed"
@@ -186,6 +479,29 @@ const BookingModal: React.FC<BookingModalProps> = ({
 
             {/* Content */}
             <div className="p-6">
+              {/* Hold Countdown */}
+              {hold && (step === "payment" || step === "verify") && (
+                <div
+                  className={`flex items-center justify-between rounded-lg p-3 mb-6 text-sm ${
+                    secondsLeft <= 60
+                      ? "bg-orange-50 dark:bg-orange-900/20 text-orange-700 dark:text-orange-300"
+                      : "bg-accent/10 text-gray-700 dark:text-gray-300"
+                  }`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <Timer className="w-4 h-4" />
+                    <span>
+                      {currentLanguage === "en"
+                        ? "Your places are held for"
+                        : "Vos places sont réservées pendant"}
+                    </span>
+                  </div>
+                  <span className="font-semibold tabular-nums">
+                    {formatCountdown(secondsLeft)}
+                  </span>
+                </div>
+              )}
+
               {step === "form" && (
                 <form onSubmit={handleFormSubmit} className="space-y-6">
                   {/* Date Selection */}
@@ -232,23 +548,45 @@ const BookingModal: React.FC<BookingModalProps> = ({
                           : "Sélectionner l'Heure"}
                       </label>
                       <div className="grid grid-cols-2 gap-2">
-                        {availableSlots.map((slot) => (
-                          <button
-                            key={slot}
-                            type="button"
-                            onClick={() =>
-                              setForm((prev) => ({ ...prev, time: slot }))
-                            }
-                            className={`p-3 rounded-lg border text-sm font-medium transition-colors ${
-                              form.time === slot
-                                ? "bg-accent text-white border-accent"
-                                : "border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
-                            }`}
-                          >
-                            <Clock className="w-4 h-4 mx-auto mb-1" />
-                            {slot}
-                          </button>
-                        ))}
+                        {availableSlots.map((slot) => {
+                          const remaining = getRemaining(slot.time);
+                          const isFull = remaining === 0;
+
+                          return (
+                            <button
+                              key={slot.time}
+                              type="button"
+                              disabled={isFull}
+                              onClick={() =>
+                                setForm((prev) => ({
+                                  ...prev,
+                                  time: slot.time,
+                                }))
+                              }
+                              className={`p-3 rounded-lg border text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                form.time === slot.time
+                                  ? "bg-accent text-white border-accent"
+                                  : "border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                              }`}
+                            >
+                              <Clock className="w-4 h-4 mx-auto mb-1" />
+                              {slot.time}
+                              {remaining !== undefined && (
+                                <span
+                                  className={`block text-xs font-normal mt-1 ${
+                                    form.time === slot.time
+                                      ? "text-white/80"
+                                      : remaining <= 3
+                                      ? "text-orange-600 dark:text-orange-400"
+                                      : "text-gray-500 dark:text-gray-400"
+                                  }`}
+                                >
+                                  {formatRemaining(remaining)}
+                                </span>
+                              )}
+                            </button>
+                          );
+                        })}
                       </div>
                     </div>
                   )}
@@ -260,74 +598,128 @@ const BookingModal: React.FC<BookingModalProps> = ({
                         ? "Number of Participants"
                         : "Nombre de Participants"}
                     </label>
-                    <div className="flex items-center space-x-4">
-                      <button
-                        type="button"
-                        onClick={() =>
-                          setForm((prev) => ({
-                            ...prev,
-                            participants: Math.max(1, prev.participants - 1),
-                          }))
-                        }
-                        className="w-10 h-10 rounded-lg border border-gray-200 dark:border-gray-600 flex items-center justify-center text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-                      >
-                        -
-                      </button>
-                      <div className="flex items-center space-x-2 flex-1">
-                        <Users className="w-4 h-4 text-gray-400" />
-                        <span className="font-medium text-gray-900 dark:text-white">
-                          {form.participants}{" "}
-                          {currentLanguage === "en"
-                            ? "participant(s)"
-                            : "participant(s)"}
-                        </span>
-                      </div>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          setForm((prev) => ({
-                            ...prev,
-                            participants: prev.participants + 1,
-                          }))
-                        }
-                        className="w-10 h-10 rounded-lg border border-gray-200 dark:border-gray-600 flex items-center justify-center text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-                      >
-                        +
-                      </button>
+                    <div className="space-y-3">
+                      {PARTICIPANT_TYPES.map((type) => {
+                        return (
+                          <div
+                            key={type}
+                            className="flex items-center justify-between"
+                          >
+                            <div className="flex items-center space-x-2">
+                              <Users className="w-4 h-4 text-gray-400" />
+                              <div>
+                                <div className="font-medium text-gray-900 dark:text-white">
+                                  {PARTICIPANT_LABELS[type][currentLanguage]}
+                                </div>
+                                <div className="text-xs text-gray-500 dark:text-gray-400">
+                                  {formatPrice(
+                                    quote.unitPrices[type],
+                                    currentLanguage
+                                  )}{" "}
+                                  {quote.currency}
+                                </div>
+                              </div>
+                            </div>
+                            <div className="flex items-center space-x-3">
+                              <button
+                                type="button"
+                                onClick={() => changeGuests(type, -1)}
+                                disabled={
+                                  form.guests[type] === 0 || participants === 1
+                                }
+                                aria-label={`${
+                                  currentLanguage === "en"
+                                    ? "Remove"
+                                    : "Retirer"
+                                } ${PARTICIPANT_LABELS[type][currentLanguage]}`}
+                                className="w-10 h-10 rounded-lg border border-gray-200 dark:border-gray-600 flex items-center justify-center text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                -
+                              </button>
+                              <span className="w-6 text-center font-medium text-gray-900 dark:text-white">
+                                {form.guests[type]}
+                              </span>
+                              <button
+                                type="button"
+                                onClick={() => changeGuests(type, 1)}
+                                disabled={
+                                  selectedRemaining !== undefined &&
+                                  participants >= selectedRemaining
+                                }
+                                aria-label={`${
+                                  currentLanguage === "en" ? "Add" : "Ajouter"
+                                } ${PARTICIPANT_LABELS[type][currentLanguage]}`}
+                                className="w-10 h-10 rounded-lg border border-gray-200 dark:border-gray-600 flex items-center justify-center text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                +
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      })}
                     </div>
+                    {!hasEnoughPlaces && selectedRemaining !== undefined && (
+                      <p className="mt-2 text-sm text-orange-600 dark:text-orange-400">
+                        {currentLanguage === "en"
+                          ? `Only ${selectedRemaining} places left at this time.`
+                          : `Plus que ${selectedRemaining} places à cette heure.`}
+                      </p>
+                    )}
                   </div>
 
                   {/* Total Price */}
-                  {form.participants > 0 && (
-                    <div className="bg-surface dark:bg-gray-700 rounded-lg p-4">
-                      <div className="flex justify-between items-center">
-                        <span className="text-gray-700 dark:text-gray-300">
-                          {currentLanguage === "en"
-                            ? "Total Price"
-                            : "Prix Total"}
-                        </span>
-                        <span className="text-xl font-bold text-accent">
-                          {totalPrice} MAD
-                        </span>
-                      </div>
-                      <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                        {listing.price} MAD × {form.participants}{" "}
+                  <div className="bg-surface dark:bg-gray-700 rounded-lg p-4">
+                    <PriceBreakdown
+                      quote={quote}
+                      currentLanguage={currentLanguage}
+                      totalLabel={
+                        currentLanguage === "en" ? "Total Price" : "Prix Total"
+                      }
+                    />
+                  </div>
+
+                  {holdExpired && (
+                    <div
+                      role="alert"
+                      className="flex items-start space-x-3 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 text-orange-700 dark:text-orange-300 rounded-lg p-3 text-sm"
+                    >
+                      <Timer className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>
                         {currentLanguage === "en"
-                          ? "participant(s)"
-                          : "participant(s)"}
-                      </div>
+                          ? "Your places were released because the time to pay ran out. Check the availability and try again."
+                          : "Vos places ont été libérées car le délai de paiement est écoulé. Vérifiez les disponibilités et réessayez."}
+                      </span>
                     </div>
                   )}
 
+                  {submitError && (
+                    <ErrorState
+                      error={submitError}
+                      currentLanguage={currentLanguage}
+                      compact
+                    />
+                  )}
+
                   {/* Submit Button */}
                   <button
                     type="submit"
-                    disabled={!form.date || !form.time || form.participants < 1}
-                    className="w-full py-3 px-4 bg-accent text-white rounded-lg font-medium hover:bg-accent/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    disabled={
+                      isLoading ||
+                      !form.date ||
+                      !form.time ||
+                      participants < 1 ||
+                      !hasEnoughPlaces
+                    }
+                    className="w-full py-3 px-4 bg-accent text-white rounded-lg font-medium hover:bg-accent/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
                   >
-                    {currentLanguage === "en"
-                      ? "Continue to Payment"
-                      : "Continuer vers le Paiement"}
+                    {isLoading && (
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    )}
+                    <span>
+                      {currentLanguage === "en"
+                        ? "Continue to Payment"
+                        : "Continuer vers le Paiement"}
+                    </span>
                   </button>
                 </form>
               )}
@@ -357,22 +749,11 @@ const BookingModal: React.FC<BookingModalProps> = ({
                         {form.time}
                       </span>
                     </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600 dark:text-gray-400">
-                        {currentLanguage === "en"
-                          ? "Participants"
-                          : "Participants"}
-                        :
-                      </span>
-                      <span className="text-gray-900 dark:text-white">
-                        {form.participants}
-                      </span>
-                    </div>
-                    <div className="flex justify-between font-medium pt-2 border-t border-gray-300 dark:border-gray-600">
-                      <span className="text-gray-900 dark:text-white">
-                        {currentLanguage === "en" ? "Total" : "Total"}:
-                      </span>
-                      <span className="text-accent">{totalPrice} MAD</span>
+                    <div className="pt-2 border-t border-gray-300 dark:border-gray-600">
+                      <PriceBreakdown
+                        quote={quote}
+                        currentLanguage={currentLanguage}
+                      />
                     </div>
                   </div>
 
@@ -385,57 +766,135 @@ const BookingModal: React.FC<BookingModalProps> = ({
                     </h4>
 
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      <label
+                        htmlFor="card-number"
+                        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                      >
                         {currentLanguage === "en"
                           ? "Card Number"
                           : "Numéro de Carte"}
                       </label>
-                      <input
-                        type="text"
-                        placeholder="1234 5678 9012 3456"
-                        className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-accent focus:border-transparent"
-                        required
-                      />
+                      <div className="relative">
+                        <input
+                          id="card-number"
+                          type="text"
+                          inputMode="numeric"
+                          autoComplete="cc-number"
+                          value={card.number}
+                          onChange={(e) =>
+                            setCard((prev) => ({
+                              ...prev,
+                              number: formatCardNumber(e.target.value),
+                            }))
+                          }
+                          onBlur={() => touchCardField("number")}
+                          aria-invalid={Boolean(visibleCardError("number"))}
+                          placeholder="1234 5678 9012 3456"
+                          className={`${getCardInputClassName("number")} pr-24`}
+                        />
+                        {cardBrand && (
+                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">
+                            {getCardBrandLabel(cardBrand)}
+                          </span>
+                        )}
+                      </div>
+                      {renderCardError("number")}
                     </div>
 
                     <div className="grid grid-cols-2 gap-4">
                       <div>
-                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        <label
+                          htmlFor="card-expiry"
+                          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                        >
                           {currentLanguage === "en" ? "Expiry" : "Expiration"}
                         </label>
                         <input
+                          id="card-expiry"
                           type="text"
-                          placeholder="MM/YY"
-                          className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-accent focus:border-transparent"
-                          required
+                          inputMode="numeric"
+                          autoComplete="cc-exp"
+                          value={card.expiry}
+                          onChange={(e) =>
+                            setCard((prev) => ({
+                              ...prev,
+                              expiry: formatExpiry(e.target.value),
+                            }))
+                          }
+                          onBlur={() => touchCardField("expiry")}
+                          aria-invalid={Boolean(visibleCardError("expiry"))}
+                          placeholder={
+                            currentLanguage === "en" ? "MM/YY" : "MM/AA"
+                          }
+                          className={getCardInputClassName("expiry")}
                         />
+                        {renderCardError("expiry")}
                       </div>
                       <div>
-                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        <label
+                          htmlFor="card-cvc"
+                          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                        >
                           CVC
                         </label>
                         <input
+                          id="card-cvc"
                           type="text"
+                          inputMode="numeric"
+                          autoComplete="cc-csc"
+                          value={card.cvc}
+                          onChange={(e) =>
+                            setCard((prev) => ({
+                              ...prev,
+                              cvc: formatCvc(e.target.value, cardBrand),
+                            }))
+                          }
+                          onBlur={() => touchCardField("cvc")}
+                          aria-invalid={Boolean(visibleCardError("cvc"))}
                           placeholder="123"
-                          className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-accent focus:border-transparent"
-                          required
+                          className={getCardInputClassName("cvc")}
                         />
+                        {renderCardError("cvc")}
                       </div>
                     </div>
                   </div>
 
+                  {paymentError && (
+                    <div
+                      role="alert"
+                      className="flex items-start space-x-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg p-3 text-sm"
+                    >
+                      <CreditCard className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>
+                        {getPaymentErrorMessage(paymentError, currentLanguage)}
+                      </span>
+                    </div>
+                  )}
+
+                  {submitError && (
+                    <ErrorState
+                      error={submitError}
+                      currentLanguage={currentLanguage}
+                      compact
+                    />
+                  )}
+
                   {/* Action Buttons */}
                   <div className="flex space-x-3">
                     <button
                       type="button"
-                      onClick={() => setStep("form")}
+                      onClick={() => {
+                        dropHold();
+                        setSubmitError(null);
+                        setStep("form");
+                      }}
                       className="flex-1 py-3 px-4 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 font-medium hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
                     >
                       {currentLanguage === "en" ? "Back" : "Retour"}
                     </button>
                     <button
                       type="submit"
-                      disabled={isLoading}
+                      disabled={isLoading || !isCardValid}
                       className="flex-1 py-3 px-4 bg-accent text-white rounded-lg font-medium hover:bg-accent/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
                     >
                       {isLoading ? (
@@ -462,6 +921,88 @@ const BookingModal: React.FC<BookingModalProps> = ({
                 </form>
               )}
 
+              {step === "verify" && (
+                <form onSubmit={handleVerifySubmit} className="space-y-6">
+                  <div className="text-center space-y-2">
+                    <div className="w-12 h-12 bg-accent/10 rounded-full flex items-center justify-center mx-auto">
+                      <ShieldCheck className="w-6 h-6 text-accent" />
+                    </div>
+                    <h3 className="font-semibold text-gray-900 dark:text-white">
+                      {currentLanguage === "en"
+                        ? "Confirm it's you"
+                        : "Confirmez votre identité"}
+                    </h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {currentLanguage === "en"
+                        ? `Your bank needs to approve this payment of ${formatPrice(
+                            totalPrice,
+                            "en"
+                          )} ${quote.currency}. Enter the code it sent you.`
+                        : `Votre banque doit approuver ce paiement de ${formatPrice(
+                            totalPrice,
+                            "fr"
+                          )} ${quote.currency}. Saisissez le code reçu.`}
+                    </p>
+                  </div>
+
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    value={challengeCode}
+                    onChange={(e) => setChallengeCode(e.target.value)}
+                    placeholder="000000"
+                    aria-label={
+                      currentLanguage === "en"
+                        ? "Verification code"
+                        : "Code de vérification"
+                    }
+                    className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-center text-lg tracking-widest focus:ring-2 focus:ring-accent focus:border-transparent"
+                    required
+                  />
+
+                  {submitError && (
+                    <ErrorState
+                      error={submitError}
+                      currentLanguage={currentLanguage}
+                      compact
+                    />
+                  )}
+
+                  <div className="flex space-x-3">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        // The challenge can't be skipped; start over with a
+                        // new intent
+                        dropPaymentIntent();
+                        setSubmitError(null);
+                        setStep("payment");
+                      }}
+                      disabled={isLoading}
+                      className="flex-1 py-3 px-4 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 font-medium hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                    >
+                      {currentLanguage === "en" ? "Back" : "Retour"}
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={isLoading || !challengeCode.trim()}
+                      className="flex-1 py-3 px-4 bg-accent text-white rounded-lg font-medium hover:bg-accent/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+                    >
+                      {isLoading ? (
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                      ) : (
+                        <ShieldCheck className="w-4 h-4" />
+                      )}
+                      <span>
+                        {currentLanguage === "en" ? "Verify" : "Vérifier"}
+                      </span>
+                    </button>
+                  </div>
+                </form>
+              )}
+
               {step === "success" && (
                 <div className="text-center space-y-6">
                   <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto">
@@ -498,23 +1039,14 @@ const BookingModal: React.FC<BookingModalProps> = ({
                         {form.time}
                       </span>
                     </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600 dark:text-gray-400">
-                        {currentLanguage === "en"
-                          ? "Participants"
-                          : "Participants"}
-                        :
-                      </span>
-                      <span className="text-gray-900 dark:text-white">
-                        {form.participants}
-                      </span>
-                    </div>
-                    <div className="flex justify-between font-medium pt-2 border-t border-gray-300 dark:border-gray-600">
-                      <span className="text-gray-900 dark:text-white">
-                        {currentLanguage === "en" ? "Total Paid" : "Total Payé"}
-                        :
-                      </span>
-                      <span className="text-accent">{totalPrice} MAD</span>
+                    <div className="pt-2 border-t border-gray-300 dark:border-gray-600">
+                      <PriceBreakdown
+                        quote={quote}
+                        currentLanguage={currentLanguage}
+                        totalLabel={
+                          currentLanguage === "en" ? "Total Paid" : "Total Payé"
+                        }
+                      />
                     </div>
                   </div>
 
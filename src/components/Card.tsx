@@ -1,12 +1,16 @@
 import React from "react";
-import { Heart, Star, MapPin } from "lucide-react";
+import { Heart, Star, MapPin, Navigation } from "lucide-react";
 import { Listing } from "@/lib/mockData";
+import { highlightMatches } from "@/lib/search";
+import { formatDistance } from "@/lib/geo";
 
 interface CardProps {
   listing: Listing;
   currentLanguage: "en" | "fr";
   isWishlisted: boolean;
   onWishlistChange: (listingId: string) => void;
+  highlight?: string;
+  distance?: number; // in km, from the user's location
 }
 
 const Card: React.FC<CardProps> = ({
@@ -14,6 +18,8 @@ const Card: React.FC<CardProps> = ({
   currentLanguage,
   isWishlisted,
   onWishlistChange,
+  highlight,
+  distance,
 }) => {
   const handleWishlistClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -29,6 +35,23 @@ const Card: React.FC<CardProps> = ({
     return labels[category as keyof typeof labels] || category;
   };
 
+  // Mark the words that matched the current search
+  const renderText = (text: string) => {
+    if (!highlight?.trim()) return text;
+    return highlightMatches(text, highlight).map((segment, index) =>
+      segment.match ? (
+        <mark
+          key={index}
+          className="bg-accent/20 text-inherit rounded-sm dark:bg-accent/30"
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    );
+  };
+
   const getCategoryColor = (category: string) => {
     const colors = {
       restaurant:
@@ -84,17 +107,27 @@ const Card: React.FC<CardProps> = ({
       <div className="p-4">
         {/* Title */}
         <h3 className="font-semibold text-gray-900 dark:text-white text-lg mb-2 line-clamp-1">
-          {currentLanguage === "en" ? listing.title : listing.titleFr}
+          {renderText(
+            currentLanguage === "en" ? listing.title : listing.titleFr
+          )}
         </h3>
 
         {/* Location */}
         <div className="flex items-center text-gray-500 dark:text-gray-400 mb-3">
           <MapPin className="w-4 h-4 mr-1 flex-shrink-0" />
           <span className="text-sm line-clamp-1">
-            {currentLanguage === "en"
-              ? listing.location.address
-              : listing.location.addressFr}
+            {renderText(
+              currentLanguage === "en"
+                ? listing.location.address
+                : listing.location.addressFr
+            )}
           </span>
+          {distance !== undefined && (
+            <span className="flex items-center ml-auto pl-2 text-sm text-accent font-medium flex-shrink-0">
+              <Navigation className="w-3 h-3 mr-1" />
+              {formatDistance(distance, currentLanguage)}
+            </span>
+          )}
         </div>
 
         {/* Rating and Reviews */}
@@ -111,9 +144,11 @@ const Card: React.FC<CardProps> = ({
 
         {/* Description */}
         <p className="text-gray-600 dark:text-gray-300 text-sm mb-4 line-clamp-2">
-          {currentLanguage === "en"
-            ? listing.description
-            : listing.descriptionFr}
+          {renderText(
+            currentLanguage === "en"
+              ? listing.description
+              : listing.descriptionFr
+          )}
         </p>
 
         {/* Price and Host */}
@@ -125,7 +160,7 @@ const Card: React.FC<CardProps> = ({
               className="w-6 h-6 rounded-full mr-2"
             />
             <span className="text-sm text-gray-600 dark:text-gray-400">
-              {listing.host.name}
+              {renderText(listing.host.name)}
             </span>
             {listing.host.verified && (
               <div className="ml-1 w-4 h-4 bg-blue-500 rounded-full flex items-center justify-center">
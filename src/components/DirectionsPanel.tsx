@@ -0,0 +1,270 @@
+import React, { useRef, useState } from "react";
+import {
+  Footprints,
+  Car,
+  LocateFixed,
+  Loader,
+  Navigation,
+  ExternalLink,
+} from "lucide-react";
+import {
+  formatDistance,
+  getCurrentPosition,
+  getGeolocationErrorMessage,
+  LatLng,
+} from "@/lib/geo";
+import {
+  formatDuration,
+  geocodeAddress,
+  getDirections,
+  getExternalDirectionsLinks,
+  Route,
+  TravelMode,
+} from "@/lib/routing";
+import { getErrorMessage } from "@/lib/errors";
+
+interface DirectionsPanelProps {
+  destination: LatLng;
+  currentLanguage: "en" | "fr";
+  onRouteChange?: (route: Route | null) => void;
+}
+
+const DirectionsPanel: React.FC<DirectionsPanelProps> = ({
+  destination,
+  currentLanguage,
+  onRouteChange,
+}) => {
+  const [mode, setMode] = useState<TravelMode>("walking");
+  const [address, setAddress] = useState("");
+  const [origin, setOrigin] = useState<LatLng | null>(null);
+  const [route, setRoute] = useState<Route | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  // Newer requests (another origin or mode) win over slower older ones
+  const loadRoute = async (from: LatLng, travelMode: TravelMode) => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const next = await getDirections(from, destination, travelMode);
+      if (requestId !== requestIdRef.current) return;
+      setRoute(next);
+      onRouteChange?.(next);
+    } catch (routeError) {
+      if (requestId !== requestIdRef.current) return;
+      console.error("Error loading directions:", routeError);
+      setRoute(null);
+      onRouteChange?.(null);
+      setError(getErrorMessage(routeError, currentLanguage));
+    } finally {
+      if (requestId === requestIdRef.current) setIsLoading(false);
+    }
+  };
+
+  const handleModeChange = (next: TravelMode) => {
+    setMode(next);
+    if (origin) loadRoute(origin, next);
+  };
+
+  const handleUseMyLocation = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const position = await getCurrentPosition();
+      setOrigin(position);
+      loadRoute(position, mode);
+    } catch (locationError) {
+      setIsLoading(false);
+      setError(getGeolocationErrorMessage(locationError, currentLanguage));
+    }
+  };
+
+  const handleAddressSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = address.trim();
+    if (!trimmed) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const position = await geocodeAddress(trimmed);
+      if (position) {
+        setOrigin(position);
+        loadRoute(position, mode);
+      } else {
+        setIsLoading(false);
+        setError(
+          currentLanguage === "en"
+            ? "We couldn't find that address. Try a neighbourhood or landmark."
+            : "Adresse introuvable. Essayez un quartier ou un lieu connu."
+        );
+      }
+    } catch (geocodeError) {
+      setIsLoading(false);
+      setError(getErrorMessage(geocodeError, currentLanguage));
+    }
+  };
+
+  const handleClear = () => {
+    requestIdRef.current++;
+    setOrigin(null);
+    setRoute(null);
+    setAddress("");
+    setError(null);
+    setIsLoading(false);
+    onRouteChange?.(null);
+  };
+
+  const modes: {
+    value: TravelMode;
+    icon: typeof Car;
+    label: { en: string; fr: string };
+  }[] = [
+    { value: "walking", icon: Footprints, label: { en: "Walk", fr: "À pied" } },
+    { value: "driving", icon: Car, label: { en: "Drive", fr: "En voiture" } },
+  ];
+
+  const externalLinks = getExternalDirectionsLinks(
+    destination,
+    mode,
+    origin || undefined
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900 dark:text-white">
+          {currentLanguage === "en" ? "Get directions" : "Itinéraire"}
+        </h4>
+        <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+          {modes.map((option) => {
+            const Icon = option.icon;
+
+            return (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => handleModeChange(option.value)}
+                aria-pressed={mode === option.value}
+                className={`flex items-center space-x-1 px-3 py-1.5 rounded-md text-sm transition-colors ${
+                  mode === option.value
+                    ? "bg-white dark:bg-gray-600 text-accent shadow-sm"
+                    : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                <span>{option.label[currentLanguage]}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Origin */}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <button
+          type="button"
+          onClick={handleUseMyLocation}
+          disabled={isLoading}
+          className="flex items-center justify-center space-x-2 px-4 py-2 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+        >
+          <LocateFixed className="w-4 h-4" />
+          <span>
+            {currentLanguage === "en"
+              ? "From my location"
+              : "Depuis ma position"}
+          </span>
+        </button>
+        <form onSubmit={handleAddressSubmit} className="flex flex-1 gap-2">
+          <input
+            type="text"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder={
+              currentLanguage === "en"
+                ? "Or start from an address..."
+                : "Ou partir d'une adresse..."
+            }
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-accent focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || !address.trim()}
+            className="px-4 py-2 bg-accent text-white text-sm rounded-lg hover:bg-accent/90 transition-colors disabled:opacity-50"
+          >
+            {currentLanguage === "en" ? "Go" : "OK"}
+          </button>
+        </form>
+      </div>
+
+      {/* Result */}
+      {isLoading ? (
+        <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+          <Loader className="w-4 h-4 animate-spin" />
+          <span>
+            {currentLanguage === "en"
+              ? "Finding a route..."
+              : "Recherche d'un itinéraire..."}
+          </span>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg p-3 text-sm">
+          {error}
+        </div>
+      ) : (
+        route && (
+          <div className="flex items-center justify-between bg-accent/10 rounded-lg p-4">
+            <div className="flex items-center space-x-3">
+              <Navigation className="w-5 h-5 text-accent" />
+              <div>
+                <div className="font-semibold text-gray-900 dark:text-white">
+                  {route.approximate && "~"}
+                  {formatDuration(route.durationMinutes)} ·{" "}
+                  {formatDistance(route.distanceKm, currentLanguage)}
+                </div>
+                {route.approximate && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {currentLanguage === "en"
+                      ? "Estimate based on distance, not actual roads"
+                      : "Estimation selon la distance, hors tracé réel"}
+                  </div>
+                )}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={handleClear}
+              className="text-sm text-accent hover:underline"
+            >
+              {currentLanguage === "en" ? "Clear" : "Effacer"}
+            </button>
+          </div>
+        )
+      )}
+
+      {/* External Map Apps */}
+      <div className="flex flex-wrap gap-2">
+        {externalLinks.map((link) => (
+          <a
+            key={link.id}
+            href={link.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center space-x-1 px-3 py-1.5 border border-gray-200 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            <span>
+              {currentLanguage === "en" ? "Open in" : "Ouvrir dans"}{" "}
+              {link.label}
+            </span>
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DirectionsPanel;
@@ -0,0 +1,69 @@
+import React from "react";
+import { AlertTriangle, RefreshCw, WifiOff } from "lucide-react";
+import { getErrorMessage, toApiError } from "@/lib/errors";
+
+interface ErrorStateProps {
+  error: unknown;
+  onRetry?: () => void;
+  currentLanguage?: "en" | "fr";
+  compact?: boolean;
+}
+
+const ErrorState: React.FC<ErrorStateProps> = ({
+  error,
+  onRetry,
+  currentLanguage = "en",
+  compact = false,
+}) => {
+  const apiError = toApiError(error);
+  const Icon = apiError.kind === "network" ? WifiOff : AlertTriangle;
+  const message = getErrorMessage(apiError, currentLanguage);
+
+  if (compact) {
+    return (
+      <div
+        role="alert"
+        className="flex items-start space-x-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg p-3 text-sm"
+      >
+        <Icon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <span className="flex-1">{message}</span>
+        {onRetry && (
+          <button
+            type="button"
+            onClick={onRetry}
+            className="font-medium underline hover:no-underline"
+          >
+            {currentLanguage === "en" ? "Retry" : "Réessayer"}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div role="alert" className="text-center py-16">
+      <div className="w-16 h-16 bg-red-100 dark:bg-red-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+        <Icon className="w-8 h-8 text-red-500" />
+      </div>
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+        {currentLanguage === "en"
+          ? "Something went wrong"
+          : "Une erreur s'est produite"}
+      </h3>
+      <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-md mx-auto">
+        {message}
+      </p>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="bg-accent text-white px-6 py-3 rounded-lg font-medium hover:bg-accent/90 transition-colors inline-flex items-center space-x-2"
+        >
+          <RefreshCw className="w-4 h-4" />
+          <span>{currentLanguage === "en" ? "Try Again" : "Réessayer"}</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorState;
@@ -1,16 +1,36 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import {
   X,
   Filter,
-  DollarSign,
   Star,
   Calendar,
   MapPin,
+  Sunrise,
+  Sun,
+  Moon,
   Utensils,
   Music,
   Palette,
+  BadgeCheck,
+  LocateFixed,
+  Loader,
 } from "lucide-react";
-import { ListingFilters } from "@/lib/api";
+import {
+  countActiveFilters,
+  getListingFacets,
+  ListingCategory,
+  ListingFacets,
+  ListingFilters,
+  TimeOfDay,
+} from "@/lib/api";
+import { RATING_THRESHOLDS } from "@/lib/listingQuery";
+import {
+  DEFAULT_NEAR_ME_RADIUS_KM,
+  getCurrentPosition,
+  getGeolocationErrorMessage,
+  NEAR_ME_RADII_KM,
+} from "@/lib/geo";
+import PriceRangeSlider from "@/components/PriceRangeSlider";
 
 interface FilterDrawerProps {
   isOpen: boolean;
@@ -29,11 +49,42 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
 }) => {
   const [filters, setFilters] = useState<ListingFilters>(currentFilters);
 
+  const [facets, setFacets] = useState<ListingFacets | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [locationError, setLocationError] = useState<unknown>(null);
+  const facetsRequestIdRef = useRef(0);
+
   useEffect(() => {
     setFilters(currentFilters);
   }, [currentFilters]);
 
-  const categories = [
+  // Refresh the option counts as the selection changes. Until they load
+  // (or if they fail) no counts are shown and nothing is disabled.
+  useEffect(() => {
+    if (!isOpen) return;
+    const requestId = ++facetsRequestIdRef.current;
+
+    const loadFacets = async () => {
+      try {
+        const result = await getListingFacets(filters);
+        if (requestId === facetsRequestIdRef.current) setFacets(result);
+      } catch (error) {
+        console.error("Error loading filter counts:", error);
+        if (requestId === facetsRequestIdRef.current) setFacets(null);
+      }
+    };
+
+    // Debounced so dragging the price slider doesn't fire a request per step
+    const timeout = setTimeout(loadFacets, 200);
+    return () => clearTimeout(timeout);
+  }, [isOpen, filters]);
+
+  const categories: {
+    id: ListingCategory;
+    name: { en: string; fr: string };
+    icon: typeof Utensils;
+    color: string;
+  }[] = [
     {
       id: "restaurant",
       name: { en: "Restaurants", fr: "Restaurants" },
@@ -54,39 +105,53 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
     },
   ];
 
-  const priceRanges = [
+  const ratingOptions = RATING_THRESHOLDS.map((value) => ({
+    value,
+    label: {
+      en: `${value.toFixed(1)}+ Stars`,
+      fr: `${value.toFixed(1)}+ Étoiles`,
+    },
+  }));
+
+  const timeOfDayOptions: {
+    value: TimeOfDay;
+    icon: typeof Sun;
+    label: { en: string; fr: string };
+    hours: string;
+  }[] = [
+    {
+      value: "morning",
+      icon: Sunrise,
+      label: { en: "Morning", fr: "Matin" },
+      hours: "05:00–12:00",
+    },
     {
-      min: 0,
-      max: 100,
-      label: { en: "Under 100 MAD", fr: "Moins de 100 MAD" },
+      value: "afternoon",
+      icon: Sun,
+      label: { en: "Afternoon", fr: "Après-midi" },
+      hours: "12:00–17:00",
     },
-    { min: 100, max: 200, label: { en: "100-200 MAD", fr: "100-200 MAD" } },
-    { min: 200, max: 300, label: { en: "200-300 MAD", fr: "200-300 MAD" } },
-    { min: 300, max: 500, label: { en: "300-500 MAD", fr: "300-500 MAD" } },
     {
-      min: 500,
-      max: undefined,
-      label: { en: "Over 500 MAD", fr: "Plus de 500 MAD" },
+      value: "evening",
+      icon: Moon,
+      label: { en: "Evening", fr: "Soirée" },
+      hours: "17:00–24:00",
     },
   ];
 
-  const ratingOptions = [
-    { value: 4.5, label: { en: "4.5+ Stars", fr: "4.5+ Étoiles" } },
-    { value: 4.0, label: { en: "4.0+ Stars", fr: "4.0+ Étoiles" } },
-    { value: 3.5, label: { en: "3.5+ Stars", fr: "3.5+ Étoiles" } },
-    { value: 3.0, label: { en: "3.0+ Stars", fr: "3.0+ Étoiles" } },
-  ];
+  // Categories combine with OR, so several can be picked at once
+  const handleCategoryChange = (category: ListingCategory) => {
+    setFilters((prev) => {
+      const current = prev.category || [];
+      const next = current.includes(category)
+        ? current.filter((item) => item !== category)
+        : [...current, category];
 
-  const handleCategoryChange = (
-    category: "restaurant" | "event" | "cultural"
-  ) => {
-    setFilters((prev) => ({
-      ...prev,
-      category: prev.category === category ? undefined : category,
-    }));
+      return { ...prev, category: next.length > 0 ? next : undefined };
+    });
   };
 
-  const handlePriceRangeChange = (min: number, max?: number) => {
+  const handlePriceRangeChange = (min?: number, max?: number) => {
     setFilters((prev) => ({
       ...prev,
       minPrice: min,
@@ -105,9 +170,84 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
     setFilters((prev) => ({
       ...prev,
       date: date || undefined,
+      // Drop the end of the range if it no longer follows the start
+      dateTo:
+        date && prev.dateTo && prev.dateTo >= date ? prev.dateTo : undefined,
+    }));
+  };
+
+  const handleDateToChange = (dateTo: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      dateTo: dateTo || undefined,
+    }));
+  };
+
+  const handleTimeOfDayChange = (timeOfDay: TimeOfDay) => {
+    setFilters((prev) => ({
+      ...prev,
+      timeOfDay: prev.timeOfDay === timeOfDay ? undefined : timeOfDay,
     }));
   };
 
+  const handleAmenityToggle = (amenity: string) => {
+    setFilters((prev) => {
+      const current = prev.amenities || [];
+      const amenities = current.includes(amenity)
+        ? current.filter((item) => item !== amenity)
+        : [...current, amenity];
+
+      return {
+        ...prev,
+        amenities: amenities.length > 0 ? amenities : undefined,
+        amenitiesMatch: amenities.length > 0 ? prev.amenitiesMatch : undefined,
+      };
+    });
+  };
+
+  const handleAmenitiesMatchChange = (match: "all" | "any") => {
+    setFilters((prev) => ({
+      ...prev,
+      amenitiesMatch: match === "any" ? "any" : undefined,
+    }));
+  };
+
+  const handleVerifiedHostChange = () => {
+    setFilters((prev) => ({
+      ...prev,
+      verifiedHost: prev.verifiedHost ? undefined : true,
+    }));
+  };
+
+  const handleUseMyLocation = async () => {
+    setIsLocating(true);
+    setLocationError(null);
+    try {
+      const position = await getCurrentPosition();
+      setFilters((prev) => ({
+        ...prev,
+        location: {
+          ...position,
+          radius: prev.location?.radius ?? DEFAULT_NEAR_ME_RADIUS_KM,
+        },
+      }));
+    } catch (error) {
+      setLocationError(error);
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleRadiusChange = (radius: number) => {
+    setFilters((prev) =>
+      prev.location ? { ...prev, location: { ...prev.location, radius } } : prev
+    );
+  };
+
+  const handleClearLocation = () => {
+    setFilters((prev) => ({ ...prev, location: undefined }));
+  };
+
   const handleApply = () => {
     onApplyFilters(filters);
     onClose();
@@ -119,18 +259,29 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
     onApplyFilters(clearedFilters);
   };
 
-  const getActiveFiltersCount = () => {
-    let count = 0;
-    if (filters.category) count++;
-    if (filters.minPrice !== undefined || filters.maxPrice !== undefined)
-      count++;
-    if (filters.minRating) count++;
-    if (filters.date) count++;
-    if (filters.location) count++;
-    return count;
-  };
+  const activeFiltersCount = countActiveFilters(filters);
+
+  const getRatingCount = (value: number) =>
+    facets?.ratings.find((rating) => rating.value === value)?.count;
+
+  // Amenity options come from the facets; selected ones stay listed while
+  // the counts load
+  const amenityOptions: { value: string; count?: number }[] = [
+    ...(facets?.amenities || []),
+    ...(filters.amenities || [])
+      .filter(
+        (amenity) =>
+          !facets?.amenities.some((option) => option.value === amenity)
+      )
+      .map((value) => ({ value })),
+  ];
 
-  const activeFiltersCount = getActiveFiltersCount();
+  const renderCount = (count: number | undefined) =>
+    count !== undefined && (
+      <span className="text-xs text-gray-400 dark:text-gray-500">
+        ({count})
+      </span>
+    );
 
   return (
     <>
@@ -180,7 +331,9 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
               <div className="grid grid-cols-3 gap-3">
                 {categories.map((category) => {
                   const Icon = category.icon;
-                  const isSelected = filters.category === category.id;
+                  const isSelected =
+                    filters.category?.includes(category.id) || false;
+                  const count = facets?.categories[category.id];
                   const colorClasses = {
                     blue: isSelected
                       ? "bg-blue-100 border-blue-500 text-blue-700"
@@ -196,17 +349,20 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
                   return (
                     <button
                       key={category.id}
-                      onClick={() => handleCategoryChange(category.id as any)}
+                      onClick={() => handleCategoryChange(category.id)}
+                      aria-pressed={isSelected}
+                      disabled={count === 0 && !isSelected}
                       className={`p-4 border-2 rounded-xl transition-all ${
                         colorClasses[
                           category.color as keyof typeof colorClasses
                         ]
-                      } dark:border-gray-600 dark:text-gray-300 dark:hover:border-gray-500`}
+                      } dark:border-gray-600 dark:text-gray-300 dark:hover:border-gray-500 disabled:opacity-40 disabled:cursor-not-allowed`}
                     >
                       <Icon className="w-6 h-6 mx-auto mb-2" />
                       <span className="text-xs font-medium block">
                         {category.name[currentLanguage]}
                       </span>
+                      {renderCount(count)}
                     </button>
                   );
                 })}
@@ -218,29 +374,43 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
               <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-4">
                 {currentLanguage === "en" ? "Price Range" : "Gamme de Prix"}
               </h3>
+              <PriceRangeSlider
+                range={facets?.priceRange}
+                histogram={facets?.priceHistogram}
+                minPrice={filters.minPrice}
+                maxPrice={filters.maxPrice}
+                onChange={handlePriceRangeChange}
+                currentLanguage={currentLanguage}
+              />
+            </div>
+
+            {/* Rating */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-4">
+                {currentLanguage === "en" ? "Minimum Rating" : "Note Minimum"}
+              </h3>
               <div className="space-y-2">
-                {priceRanges.map((range, index) => {
-                  const isSelected =
-                    filters.minPrice === range.min &&
-                    filters.maxPrice === range.max;
+                {ratingOptions.map((option) => {
+                  const isSelected = filters.minRating === option.value;
+                  const count = getRatingCount(option.value);
 
                   return (
                     <button
-                      key={index}
-                      onClick={() =>
-                        handlePriceRangeChange(range.min, range.max)
-                      }
-                      className={`w-full p-3 text-left rounded-lg border transition-colors ${
+                      key={option.value}
+                      onClick={() => handleRatingChange(option.value)}
+                      disabled={count === 0 && !isSelected}
+                      className={`w-full p-3 text-left rounded-lg border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
                         isSelected
                           ? "bg-accent/10 border-accent text-accent"
                           : "border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
                       }`}
                     >
                       <div className="flex items-center space-x-2">
-                        <DollarSign className="w-4 h-4" />
+                        <Star className="w-4 h-4 text-yellow-400 fill-current" />
                         <span className="text-sm font-medium">
-                          {range.label[currentLanguage]}
+                          {option.label[currentLanguage]}
                         </span>
+                        {renderCount(count)}
                       </div>
                     </button>
                   );
@@ -248,54 +418,249 @@ const FilterDrawer: React.FC<FilterDrawerProps> = ({
               </div>
             </div>
 
-            {/* Rating */}
+            {/* Date */}
             <div>
               <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-4">
-                {currentLanguage === "en" ? "Minimum Rating" : "Note Minimum"}
+                {currentLanguage === "en"
+                  ? "Available Date"
+                  : "Date Disponible"}
               </h3>
-              <div className="space-y-2">
-                {ratingOptions.map((option) => {
-                  const isSelected = filters.minRating === option.value;
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    {currentLanguage === "en" ? "From" : "Du"}
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="date"
+                      value={filters.date || ""}
+                      onChange={(e) => handleDateChange(e.target.value)}
+                      className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-accent focus:border-transparent"
+                      min={new Date().toISOString().split("T")[0]}
+                    />
+                    <Calendar className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    {currentLanguage === "en"
+                      ? "To (optional)"
+                      : "Au (facultatif)"}
+                  </label>
+                  <div className="relative">
+                    <input
+                      type="date"
+                      value={filters.dateTo || ""}
+                      onChange={(e) => handleDateToChange(e.target.value)}
+                      disabled={!filters.date}
+                      className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-accent focus:border-transparent disabled:opacity-50"
+                      min={filters.date}
+                    />
+                    <Calendar className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Time of Day */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-4">
+                {currentLanguage === "en"
+                  ? "Time of Day"
+                  : "Moment de la Journée"}
+              </h3>
+              <div className="grid grid-cols-3 gap-3">
+                {timeOfDayOptions.map((option) => {
+                  const Icon = option.icon;
+                  const isSelected = filters.timeOfDay === option.value;
 
                   return (
                     <button
                       key={option.value}
-                      onClick={() => handleRatingChange(option.value)}
-                      className={`w-full p-3 text-left rounded-lg border transition-colors ${
+                      onClick={() => handleTimeOfDayChange(option.value)}
+                      className={`p-3 border rounded-xl transition-colors ${
                         isSelected
                           ? "bg-accent/10 border-accent text-accent"
                           : "border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
                       }`}
                     >
-                      <div className="flex items-center space-x-2">
-                        <Star className="w-4 h-4 text-yellow-400 fill-current" />
-                        <span className="text-sm font-medium">
-                          {option.label[currentLanguage]}
-                        </span>
-                      </div>
+                      <Icon className="w-5 h-5 mx-auto mb-1" />
+                      <span className="text-xs font-medium block">
+                        {option.label[currentLanguage]}
+                      </span>
+                      <span className="text-[10px] text-gray-500 dark:text-gray-400 block">
+                        {option.hours}
+                      </span>
                     </button>
                   );
                 })}
               </div>
             </div>
 
-            {/* Date */}
+            {/* Location */}
             <div>
               <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-4">
-                {currentLanguage === "en"
-                  ? "Available Date"
-                  : "Date Disponible"}
+                {currentLanguage === "en" ? "Location" : "Emplacement"}
               </h3>
-              <div className="relative">
-                <input
-                  type="date"
-                  value={filters.date || ""}
-                  onChange={(e) => handleDateChange(e.target.value)}
-                  className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-accent focus:border-transparent"
-                  min={new Date().toISOString().split("T")[0]}
-                />
-                <Calendar className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+              {filters.location ? (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between p-3 rounded-lg border bg-accent/10 border-accent text-accent">
+                    <div className="flex items-center space-x-2">
+                      <LocateFixed className="w-4 h-4" />
+                      <span className="text-sm font-medium">
+                        {currentLanguage === "en"
+                          ? "Near your location"
+                          : "Autour de votre position"}
+                      </span>
+                    </div>
+                    <button
+                      onClick={handleClearLocation}
+                      className="p-1 rounded-md hover:bg-accent/10 transition-colors"
+                      aria-label={
+                        currentLanguage === "en"
+                          ? "Remove location filter"
+                          : "Retirer le filtre de position"
+                      }
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                      {currentLanguage === "en" ? "Within" : "Dans un rayon de"}
+                    </label>
+                    <div className="grid grid-cols-5 gap-2">
+                      {NEAR_ME_RADII_KM.map((radius) => {
+                        const isSelected = filters.location?.radius === radius;
+
+                        return (
+                          <button
+                            key={radius}
+                            onClick={() => handleRadiusChange(radius)}
+                            className={`p-2 border rounded-lg text-xs font-medium transition-colors ${
+                              isSelected
+                                ? "bg-accent/10 border-accent text-accent"
+                                : "border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                            }`}
+                          >
+                            {radius} km
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={handleUseMyLocation}
+                  disabled={isLocating}
+                  className="w-full p-3 text-left rounded-lg border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                  <div className="flex items-center space-x-2">
+                    {isLocating ? (
+                      <Loader className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <LocateFixed className="w-4 h-4" />
+                    )}
+                    <span className="text-sm font-medium">
+                      {isLocating
+                        ? currentLanguage === "en"
+                          ? "Finding your location..."
+                          : "Localisation en cours..."
+                        : currentLanguage === "en"
+                        ? "Search near me"
+                        : "Chercher autour de moi"}
+                    </span>
+                  </div>
+                </button>
+              )}
+              {locationError !== null && (
+                <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+                  {getGeolocationErrorMessage(locationError, currentLanguage)}
+                </p>
+              )}
+            </div>
+
+            {/* Amenities */}
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-medium text-gray-900 dark:text-white">
+                  {currentLanguage === "en" ? "Amenities" : "Équipements"}
+                </h3>
+                <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+                  {(["all", "any"] as const).map((match) => {
+                    const isSelected =
+                      (filters.amenitiesMatch || "all") === match;
+
+                    return (
+                      <button
+                        key={match}
+                        onClick={() => handleAmenitiesMatchChange(match)}
+                        className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                          isSelected
+                            ? "bg-white dark:bg-gray-600 text-accent shadow-sm"
+                            : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                        }`}
+                      >
+                        {match === "all"
+                          ? currentLanguage === "en"
+                            ? "Match all"
+                            : "Tous"
+                          : currentLanguage === "en"
+                          ? "Match any"
+                          : "Au moins un"}
+                      </button>
+                    );
+                  })}
+                </div>
               </div>
+              <div className="flex flex-wrap gap-2">
+                {amenityOptions.map((option) => {
+                  const isSelected =
+                    filters.amenities?.includes(option.value) || false;
+
+                  return (
+                    <button
+                      key={option.value}
+                      onClick={() => handleAmenityToggle(option.value)}
+                      disabled={option.count === 0 && !isSelected}
+                      className={`flex items-center space-x-1 px-3 py-2 rounded-full border text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                        isSelected
+                          ? "bg-accent/10 border-accent text-accent"
+                          : "border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                      }`}
+                    >
+                      <span>{option.value}</span>
+                      {renderCount(option.count)}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Host */}
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-4">
+                {currentLanguage === "en" ? "Host" : "Hôte"}
+              </h3>
+              <button
+                onClick={handleVerifiedHostChange}
+                aria-pressed={!!filters.verifiedHost}
+                className={`w-full p-3 text-left rounded-lg border transition-colors ${
+                  filters.verifiedHost
+                    ? "bg-accent/10 border-accent text-accent"
+                    : "border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  <BadgeCheck className="w-4 h-4 text-blue-500" />
+                  <span className="text-sm font-medium">
+                    {currentLanguage === "en"
+                      ? "Verified hosts only"
+                      : "Hôtes vérifiés uniquement"}
+                  </span>
+                </div>
+              </button>
             </div>
           </div>
 
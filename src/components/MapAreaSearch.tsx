@@ -0,0 +1,292 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Polygon,
+  Polyline,
+  Rectangle,
+  useMap,
+  useMapEvents,
+} from "react-leaflet";
+import L from "leaflet";
+import { Square, Pentagon, Search, X } from "lucide-react";
+import { GeoArea, roundCoordinate } from "@/lib/geo";
+import { isAppMove } from "@/lib/mapMoves";
+
+type DrawMode = "rectangle" | "polygon";
+
+interface MapAreaSearchProps {
+  area?: GeoArea;
+  onAreaChange: (area?: GeoArea) => void;
+  currentLanguage?: "en" | "fr";
+}
+
+const AREA_STYLE = {
+  color: "#1ABC9C",
+  weight: 2,
+  dashArray: "6 6",
+  fillOpacity: 0.05,
+};
+
+const toBboxArea = (bounds: L.LatLngBounds): GeoArea => ({
+  kind: "bbox",
+  south: roundCoordinate(bounds.getSouth()),
+  west: roundCoordinate(bounds.getWest()),
+  north: roundCoordinate(bounds.getNorth()),
+  east: roundCoordinate(bounds.getEast()),
+});
+
+// Draw a rectangle or polygon to search in, or search the visible map after
+// panning. Rendered inside the MapContainer.
+const MapAreaSearch: React.FC<MapAreaSearchProps> = ({
+  area,
+  onAreaChange,
+  currentLanguage = "en",
+}) => {
+  const map = useMap();
+  const [mode, setMode] = useState<DrawMode | null>(null);
+  const [points, setPoints] = useState<L.LatLng[]>([]);
+  const [cursor, setCursor] = useState<L.LatLng | null>(null);
+  const [hasMoved, setHasMoved] = useState(false);
+  const [searchOnMove, setSearchOnMove] = useState(false);
+  const controlsRef = useRef<HTMLDivElement>(null);
+
+  // Clicks and scrolls on the controls shouldn't reach the map
+  useEffect(() => {
+    if (controlsRef.current) {
+      L.DomEvent.disableClickPropagation(controlsRef.current);
+      L.DomEvent.disableScrollPropagation(controlsRef.current);
+    }
+  }, []);
+
+  const resetDrawing = () => {
+    setMode(null);
+    setPoints([]);
+    setCursor(null);
+  };
+
+  const applyArea = (next?: GeoArea) => {
+    resetDrawing();
+    setHasMoved(false);
+    onAreaChange(next);
+  };
+
+  // After the user pans or zooms, search the new view right away or offer to
+  const handleMoveEnd = () => {
+    if (mode || isAppMove(map)) return;
+    if (searchOnMove) {
+      applyArea(toBboxArea(map.getBounds()));
+    } else {
+      setHasMoved(true);
+    }
+  };
+
+  // While drawing the map doesn't pan or zoom on double click, and Escape
+  // cancels
+  useEffect(() => {
+    if (!mode) return;
+
+    const container = map.getContainer();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") resetDrawing();
+    };
+
+    map.dragging.disable();
+    map.doubleClickZoom.disable();
+    container.style.cursor = "crosshair";
+    document.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      map.dragging.enable();
+      map.doubleClickZoom.enable();
+      container.style.cursor = "";
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [map, mode]);
+
+  useMapEvents({
+    // Fires once the view has settled (after inertia, for keyboard pans too)
+    moveend: () => handleMoveEnd(),
+    mousedown: (e) => {
+      if (mode === "rectangle") setPoints([e.latlng]);
+    },
+    mousemove: (e) => {
+      if (mode) setCursor(e.latlng);
+    },
+    mouseup: (e) => {
+      if (mode !== "rectangle" || points.length !== 1) return;
+      const bounds = L.latLngBounds(points[0], e.latlng);
+      // A click without a drag doesn't make a rectangle; start over
+      if (bounds.getNorthEast().equals(bounds.getSouthWest())) {
+        setPoints([]);
+        return;
+      }
+      applyArea(toBboxArea(bounds));
+    },
+    click: (e) => {
+      if (mode === "polygon") setPoints((prev) => [...prev, e.latlng]);
+    },
+    dblclick: () => {
+      if (mode !== "polygon") return;
+      // The double click also added its point twice
+      const vertices = points.filter(
+        (point, index) => index === 0 || !point.equals(points[index - 1])
+      );
+      if (vertices.length < 3) return;
+      applyArea({
+        kind: "polygon",
+        points: vertices.map((point) => ({
+          lat: roundCoordinate(point.lat),
+          lng: roundCoordinate(point.lng),
+        })),
+      });
+    },
+  });
+
+  const toggleMode = (next: DrawMode) => {
+    if (mode === next) {
+      resetDrawing();
+    } else {
+      setPoints([]);
+      setCursor(null);
+      setMode(next);
+    }
+  };
+
+  const drawButtons: {
+    mode: DrawMode;
+    icon: typeof Square;
+    label: { en: string; fr: string };
+  }[] = [
+    {
+      mode: "rectangle",
+      icon: Square,
+      label: { en: "Draw a rectangle", fr: "Dessiner un rectangle" },
+    },
+    {
+      mode: "polygon",
+      icon: Pentagon,
+      label: { en: "Draw a shape", fr: "Dessiner une zone" },
+    },
+  ];
+
+  return (
+    <>
+      {/* Current Search Area */}
+      {area &&
+        !mode &&
+        (area.kind === "bbox" ? (
+          <Rectangle
+            bounds={[
+              [area.south, area.west],
+              [area.north, area.east],
+            ]}
+            pathOptions={AREA_STYLE}
+          />
+        ) : (
+          <Polygon
+            positions={area.points.map((point) => [point.lat, point.lng])}
+            pathOptions={AREA_STYLE}
+          />
+        ))}
+
+      {/* Drawing Preview */}
+      {mode === "rectangle" && points.length === 1 && cursor && (
+        <Rectangle
+          bounds={L.latLngBounds(points[0], cursor)}
+          pathOptions={AREA_STYLE}
+        />
+      )}
+      {mode === "polygon" && points.length > 0 && (
+        <Polyline
+          positions={cursor ? [...points, cursor] : points}
+          pathOptions={AREA_STYLE}
+        />
+      )}
+
+      {/* Controls */}
+      <div
+        ref={controlsRef}
+        className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] flex flex-col items-center space-y-2"
+      >
+        <div className="flex items-center bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-600 p-1 space-x-1">
+          {drawButtons.map((button) => {
+            const Icon = button.icon;
+            const active = mode === button.mode;
+
+            return (
+              <button
+                key={button.mode}
+                onClick={() => toggleMode(button.mode)}
+                aria-pressed={active}
+                title={button.label[currentLanguage]}
+                className={`p-2 rounded-md transition-colors ${
+                  active
+                    ? "bg-accent text-white"
+                    : "text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            );
+          })}
+          {area && (
+            <button
+              onClick={() => applyArea(undefined)}
+              title={
+                currentLanguage === "en"
+                  ? "Clear search area"
+                  : "Effacer la zone de recherche"
+              }
+              className="p-2 rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+          <label className="flex items-center space-x-2 pl-2 pr-3 text-xs text-gray-700 dark:text-gray-300 border-l border-gray-200 dark:border-gray-600 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={searchOnMove}
+              onChange={(e) => {
+                setSearchOnMove(e.target.checked);
+                setHasMoved(false);
+              }}
+              className="accent-accent"
+            />
+            <span>
+              {currentLanguage === "en"
+                ? "Search as I move the map"
+                : "Rechercher en déplaçant la carte"}
+            </span>
+          </label>
+        </div>
+
+        {mode ? (
+          <div className="bg-gray-900/80 text-white text-xs rounded-lg px-3 py-2 shadow-lg">
+            {mode === "rectangle"
+              ? currentLanguage === "en"
+                ? "Drag on the map to draw a rectangle"
+                : "Faites glisser sur la carte pour dessiner un rectangle"
+              : currentLanguage === "en"
+              ? "Click to add points, double-click to finish"
+              : "Cliquez pour ajouter des points, double-cliquez pour terminer"}
+          </div>
+        ) : (
+          hasMoved && (
+            <button
+              onClick={() => applyArea(toBboxArea(map.getBounds()))}
+              className="flex items-center space-x-2 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm font-medium rounded-full shadow-lg border border-gray-200 dark:border-gray-600 px-4 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              <Search className="w-4 h-4 text-accent" />
+              <span>
+                {currentLanguage === "en"
+                  ? "Search this area"
+                  : "Rechercher dans cette zone"}
+              </span>
+            </button>
+          )
+        )}
+      </div>
+    </>
+  );
+};
+
+export default MapAreaSearch;
@@ -0,0 +1,286 @@
+import React, { useEffect, useRef, useState } from "react";
+import { CircleMarker, useMap } from "react-leaflet";
+import L from "leaflet";
+import {
+  RotateCcw,
+  Scan,
+  LocateFixed,
+  Loader,
+  Maximize,
+  Minimize,
+  Layers,
+} from "lucide-react";
+import { Listing } from "@/lib/mockData";
+import { getCurrentPosition, getGeolocationErrorMessage } from "@/lib/geo";
+import { moveMap } from "@/lib/mapMoves";
+import { CATEGORY_COLORS } from "./MarkerClusterLayer";
+
+interface MapControlsProps {
+  listings: Listing[];
+  // The initial view, restored by "reset"
+  center: [number, number];
+  zoom: number;
+  // Element shown fullscreen: the map together with its overlays
+  fullscreenTargetRef: React.RefObject<HTMLElement>;
+  // Called with the user's position; without it "locate me" only shows the
+  // position on the map
+  onLocate?: (position: { lat: number; lng: number }) => void;
+  isLocationActive?: boolean;
+  currentLanguage?: "en" | "fr";
+}
+
+const CATEGORY_LABELS: Record<Listing["category"], { en: string; fr: string }> =
+  {
+    restaurant: { en: "Restaurant", fr: "Restaurant" },
+    event: { en: "Event", fr: "Événement" },
+    cultural: { en: "Cultural", fr: "Culturel" },
+  };
+
+const LOCATE_ZOOM = 14;
+
+const buttonClassName =
+  "block bg-white dark:bg-gray-800 p-2 rounded-lg shadow-lg border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Reset, fit to results, locate me, fullscreen and the category legend.
+// Rendered inside the MapContainer so every map drives its own instance.
+const MapControls: React.FC<MapControlsProps> = ({
+  listings,
+  center,
+  zoom,
+  fullscreenTargetRef,
+  onLocate,
+  isLocationActive = false,
+  currentLanguage = "en",
+}) => {
+  const map = useMap();
+  const [isLocating, setIsLocating] = useState(false);
+  const [locationError, setLocationError] = useState<unknown>(null);
+  const [position, setPosition] = useState<{ lat: number; lng: number }>();
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [canFullscreen, setCanFullscreen] = useState(false);
+  const [isLegendOpen, setIsLegendOpen] = useState(false);
+  const controlsRef = useRef<HTMLDivElement>(null);
+
+  // Clicks and scrolls on the controls shouldn't reach the map
+  useEffect(() => {
+    if (controlsRef.current) {
+      L.DomEvent.disableClickPropagation(controlsRef.current);
+      L.DomEvent.disableScrollPropagation(controlsRef.current);
+    }
+  }, []);
+
+  // The map has to re-measure itself when entering or leaving fullscreen
+  useEffect(() => {
+    setCanFullscreen(Boolean(document.fullscreenEnabled));
+
+    const handleFullscreenChange = () => {
+      setIsFullscreen(
+        document.fullscreenElement !== null &&
+          document.fullscreenElement === fullscreenTargetRef.current
+      );
+      map.invalidateSize();
+    };
+
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () =>
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+  }, [map, fullscreenTargetRef]);
+
+  const handleReset = () => {
+    moveMap(map, () => map.setView(center, zoom, { animate: true }));
+  };
+
+  const handleFitResults = () => {
+    if (listings.length === 0) return;
+    const bounds = L.latLngBounds(
+      listings.map((listing) => [listing.location.lat, listing.location.lng])
+    );
+    moveMap(map, () =>
+      map.fitBounds(bounds, { padding: [48, 48], maxZoom: 15 })
+    );
+  };
+
+  const handleLocate = async () => {
+    setIsLocating(true);
+    setLocationError(null);
+    try {
+      const current = await getCurrentPosition();
+      if (onLocate) {
+        onLocate(current);
+      } else {
+        setPosition(current);
+      }
+      moveMap(map, () =>
+        map.setView(
+          [current.lat, current.lng],
+          Math.max(map.getZoom(), LOCATE_ZOOM),
+          { animate: true }
+        )
+      );
+    } catch (error) {
+      setLocationError(error);
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleToggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await fullscreenTargetRef.current?.requestFullscreen();
+      }
+    } catch (error) {
+      console.error("Error toggling fullscreen:", error);
+    }
+  };
+
+  const categoryCounts = listings.reduce<Record<string, number>>(
+    (counts, listing) => {
+      counts[listing.category] = (counts[listing.category] || 0) + 1;
+      return counts;
+    },
+    {}
+  );
+
+  return (
+    <>
+      {/* Located position when it isn't handled by the page */}
+      {position && (
+        <CircleMarker
+          center={[position.lat, position.lng]}
+          radius={7}
+          pathOptions={{
+            color: "white",
+            weight: 3,
+            fillColor: "#1ABC9C",
+            fillOpacity: 1,
+          }}
+        />
+      )}
+
+      <div
+        ref={controlsRef}
+        className="absolute top-4 right-4 z-[1000] flex flex-col items-end space-y-2"
+      >
+        <button
+          onClick={handleReset}
+          className={buttonClassName}
+          title={
+            currentLanguage === "en" ? "Reset View" : "Réinitialiser la Vue"
+          }
+        >
+          <RotateCcw className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+        </button>
+        <button
+          onClick={handleFitResults}
+          disabled={listings.length === 0}
+          className={buttonClassName}
+          title={
+            currentLanguage === "en"
+              ? "Fit to results"
+              : "Ajuster aux résultats"
+          }
+        >
+          <Scan className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+        </button>
+        <button
+          onClick={handleLocate}
+          disabled={isLocating}
+          className={buttonClassName}
+          title={
+            onLocate
+              ? currentLanguage === "en"
+                ? "Search near me"
+                : "Chercher autour de moi"
+              : currentLanguage === "en"
+              ? "Show my location"
+              : "Afficher ma position"
+          }
+        >
+          {isLocating ? (
+            <Loader className="w-4 h-4 text-gray-600 dark:text-gray-400 animate-spin" />
+          ) : (
+            <LocateFixed
+              className={`w-4 h-4 ${
+                isLocationActive || position
+                  ? "text-accent"
+                  : "text-gray-600 dark:text-gray-400"
+              }`}
+            />
+          )}
+        </button>
+        {canFullscreen && (
+          <button
+            onClick={handleToggleFullscreen}
+            className={buttonClassName}
+            title={
+              isFullscreen
+                ? currentLanguage === "en"
+                  ? "Exit fullscreen"
+                  : "Quitter le plein écran"
+                : currentLanguage === "en"
+                ? "Fullscreen"
+                : "Plein écran"
+            }
+          >
+            {isFullscreen ? (
+              <Minimize className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+            ) : (
+              <Maximize className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+            )}
+          </button>
+        )}
+        <button
+          onClick={() => setIsLegendOpen((open) => !open)}
+          aria-expanded={isLegendOpen}
+          className={buttonClassName}
+          title={currentLanguage === "en" ? "Legend" : "Légende"}
+        >
+          <Layers
+            className={`w-4 h-4 ${
+              isLegendOpen ? "text-accent" : "text-gray-600 dark:text-gray-400"
+            }`}
+          />
+        </button>
+
+        {/* Category Legend */}
+        {isLegendOpen && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-600 p-3 space-y-2 min-w-[10rem]">
+            {(Object.keys(CATEGORY_COLORS) as Listing["category"][]).map(
+              (category) => (
+                <div
+                  key={category}
+                  className="flex items-center justify-between space-x-3 text-sm"
+                >
+                  <div className="flex items-center space-x-2">
+                    <span
+                      className="w-3 h-3 rounded-full border-2 border-white shadow"
+                      style={{ backgroundColor: CATEGORY_COLORS[category] }}
+                    />
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {CATEGORY_LABELS[category][currentLanguage]}
+                    </span>
+                  </div>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {categoryCounts[category] || 0}
+                  </span>
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        {/* Geolocation Error */}
+        {locationError !== null && (
+          <div className="max-w-xs bg-red-50 dark:bg-red-900/80 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-200 rounded-lg p-3 text-sm shadow-lg">
+            {getGeolocationErrorMessage(locationError, currentLanguage)}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default MapControls;
@@ -1,6 +1,7 @@
 import React from "react";
 import dynamic from "next/dynamic";
 import { Listing } from "@/lib/mockData";
+import { GeoArea, LatLng } from "@/lib/geo";
 
 interface MapViewProps {
   listings: Listing[];
@@ -10,6 +11,16 @@ interface MapViewProps {
   zoom?: number;
   height?: string;
   currentLanguage?: "en" | "fr";
+  // User's location (and search radius in km), for distances and "near me"
+  userLocation?: { lat: number; lng: number; radius?: number };
+  onNearMe?: (position: { lat: number; lng: number }) => void;
+  // Drawn or "search this area" bounds the results are limited to
+  searchArea?: GeoArea;
+  onSearchAreaChange?: (area?: GeoArea) => void;
+  // Listing whose marker stands out, e.g. while its card is hovered
+  highlightedListingId?: string | null;
+  // Directions to draw, from the origin to the listing
+  routePath?: LatLng[];
 }
 
 // Create a loading component
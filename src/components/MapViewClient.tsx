@@ -1,8 +1,22 @@
-import React, { useEffect, useState } from "react";
-import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
+import React, { useEffect, useRef } from "react";
+import {
+  MapContainer,
+  TileLayer,
+  Marker,
+  Popup,
+  Circle,
+  CircleMarker,
+  Polyline,
+  useMap,
+} from "react-leaflet";
 import L from "leaflet";
 import { Listing } from "@/lib/mockData";
-import { Star, MapPin } from "lucide-react";
+import { calculateDistance, formatDistance, GeoArea, LatLng } from "@/lib/geo";
+import { moveMap } from "@/lib/mapMoves";
+import MapAreaSearch from "./MapAreaSearch";
+import MapControls from "./MapControls";
+import MarkerClusterLayer, { getCategoryIcon } from "./MarkerClusterLayer";
+import { Star, MapPin, Navigation } from "lucide-react";
 
 // Fix for default markers in React Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -15,43 +29,6 @@ L.Icon.Default.mergeOptions({
     "https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png",
 });
 
-// Create custom marker icons for different categories
-const createCustomIcon = (category: string) => {
-  const colors = {
-    restaurant: "#3B82F6", // Blue
-    event: "#8B5CF6", // Purple
-    cultural: "#10B981", // Green
-  };
-
-  const color = colors[category as keyof typeof colors] || "#6B7280";
-
-  return L.divIcon({
-    html: `
-      <div style="
-        background-color: ${color};
-        width: 24px;
-        height: 24px;
-        border-radius: 50%;
-        border: 3px solid white;
-        box-shadow: 0 2px 8px rgba(0,0,0,0.3);
-        display: flex;
-        align-items: center;
-        justify-content: center;
-      ">
-        <div style="
-          width: 8px;
-          height: 8px;
-          background-color: white;
-          border-radius: 50%;
-        "></div>
-      </div>
-    `,
-    className: "custom-marker",
-    iconSize: [24, 24],
-    iconAnchor: [12, 12],
-  });
-};
-
 interface MapViewProps {
   listings: Listing[];
   onListingClick?: (listing: Listing) => void;
@@ -60,6 +37,16 @@ interface MapViewProps {
   zoom?: number;
   height?: string;
   currentLanguage?: "en" | "fr";
+  // User's location (and search radius in km), for distances and "near me"
+  userLocation?: { lat: number; lng: number; radius?: number };
+  onNearMe?: (position: { lat: number; lng: number }) => void;
+  // Drawn or "search this area" bounds the results are limited to
+  searchArea?: GeoArea;
+  onSearchAreaChange?: (area?: GeoArea) => void;
+  // Listing whose marker stands out, e.g. while its card is hovered
+  highlightedListingId?: string | null;
+  // Directions to draw, from the origin to the listing
+  routePath?: LatLng[];
 }
 
 interface MapUpdaterProps {
@@ -75,24 +62,47 @@ const MapUpdater: React.FC<MapUpdaterProps> = ({
   selectedListing,
 }) => {
   const map = useMap();
+  const [lat, lng] = center;
 
+  // Depend on the coordinates, not the array, so re-renders don't undo panning
   useEffect(() => {
     if (selectedListing) {
-      map.setView(
-        [selectedListing.location.lat, selectedListing.location.lng],
-        15,
-        {
+      moveMap(map, () =>
+        map.setView(
+          [selectedListing.location.lat, selectedListing.location.lng],
+          15,
+          {
+            animate: true,
+            duration: 1,
+          }
+        )
+      );
+    } else {
+      moveMap(map, () =>
+        map.setView([lat, lng], zoom, {
           animate: true,
           duration: 1,
-        }
+        })
       );
-    } else {
-      map.setView(center, zoom, {
-        animate: true,
-        duration: 1,
-      });
     }
-  }, [map, center, zoom, selectedListing]);
+  }, [map, lat, lng, zoom, selectedListing]);
+
+  return null;
+};
+
+// Fits the map to a route whenever a new one is shown
+const RouteFitter: React.FC<{ path: LatLng[] }> = ({ path }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (path.length < 2) return;
+    moveMap(map, () =>
+      map.fitBounds(
+        L.latLngBounds(path.map((point) => [point.lat, point.lng])),
+        { padding: [32, 32] }
+      )
+    );
+  }, [map, path]);
 
   return null;
 };
@@ -105,7 +115,24 @@ const MapViewClient: React.FC<MapViewProps> = ({
   zoom = 12,
   height = "400px",
   currentLanguage = "en",
+  userLocation,
+  onNearMe,
+  searchArea,
+  onSearchAreaChange,
+  highlightedListingId,
+  routePath,
 }) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  const getDistance = (listing: Listing) =>
+    userLocation &&
+    calculateDistance(
+      userLocation.lat,
+      userLocation.lng,
+      listing.location.lat,
+      listing.location.lng
+    );
+
   const getCategoryLabel = (category: string) => {
     const labels = {
       restaurant: { en: "Restaurant", fr: "Restaurant" },
@@ -117,8 +144,101 @@ const MapViewClient: React.FC<MapViewProps> = ({
     );
   };
 
+  const renderMarker = (listing: Listing) => {
+    const title = currentLanguage === "en" ? listing.title : listing.titleFr;
+    const address =
+      currentLanguage === "en"
+        ? listing.location.address
+        : listing.location.addressFr;
+    const distance = getDistance(listing);
+    const highlighted = listing.id === highlightedListingId;
+
+    return (
+      <Marker
+        key={listing.id}
+        position={[listing.location.lat, listing.location.lng]}
+        icon={getCategoryIcon(listing.category, highlighted)}
+        zIndexOffset={highlighted ? 1000 : 0}
+        eventHandlers={{
+          click: () => onListingClick?.(listing),
+        }}
+      >
+        <Popup className="custom-popup">
+          <div className="w-64 p-2">
+            {/* Image */}
+            <div className="relative h-32 mb-3 rounded-lg overflow-hidden">
+              <img
+                src={listing.images[0]}
+                alt={title}
+                className="w-full h-full object-cover"
+              />
+              <div className="absolute top-2 left-2">
+                <span
+                  className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    listing.category === "restaurant"
+                      ? "bg-blue-100 text-blue-800"
+                      : listing.category === "event"
+                      ? "bg-purple-100 text-purple-800"
+                      : "bg-green-100 text-green-800"
+                  }`}
+                >
+                  {getCategoryLabel(listing.category)}
+                </span>
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="space-y-2">
+              <h3 className="font-semibold text-gray-900 text-sm line-clamp-1">
+                {title}
+              </h3>
+
+              <div className="flex items-center space-x-1">
+                <Star className="w-3 h-3 text-yellow-400 fill-current" />
+                <span className="text-xs text-gray-600">
+                  {listing.rating} ({listing.reviewCount})
+                </span>
+              </div>
+
+              <div className="flex items-center space-x-1 text-gray-500">
+                <MapPin className="w-3 h-3" />
+                <span className="text-xs line-clamp-1">{address}</span>
+              </div>
+
+              {distance !== undefined && (
+                <div className="flex items-center space-x-1 text-accent">
+                  <Navigation className="w-3 h-3" />
+                  <span className="text-xs font-medium">
+                    {formatDistance(distance, currentLanguage)}{" "}
+                    {currentLanguage === "en" ? "away" : "de vous"}
+                  </span>
+                </div>
+              )}
+
+              <div className="flex justify-between items-center pt-2">
+                <span className="font-bold text-accent">
+                  {listing.price} MAD
+                </span>
+                <button
+                  onClick={() => onListingClick?.(listing)}
+                  className="px-3 py-1 bg-accent text-white text-xs rounded-lg hover:bg-accent/90 transition-colors"
+                >
+                  {currentLanguage === "en" ? "View Details" : "Voir Détails"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </Popup>
+      </Marker>
+    );
+  };
+
   return (
-    <div className="relative rounded-lg overflow-hidden" style={{ height }}>
+    <div
+      ref={wrapperRef}
+      className="relative rounded-lg overflow-hidden"
+      style={{ height }}
+    >
       <MapContainer
         center={center}
         zoom={zoom}
@@ -137,106 +257,79 @@ const MapViewClient: React.FC<MapViewProps> = ({
           selectedListing={selectedListing}
         />
 
-        {listings.map((listing) => {
-          const title =
-            currentLanguage === "en" ? listing.title : listing.titleFr;
-          const address =
-            currentLanguage === "en"
-              ? listing.location.address
-              : listing.location.addressFr;
-
-          return (
-            <Marker
-              key={listing.id}
-              position={[listing.location.lat, listing.location.lng]}
-              icon={createCustomIcon(listing.category)}
-              eventHandlers={{
-                click: () => onListingClick?.(listing),
-              }}
-            >
-              <Popup className="custom-popup">
-                <div className="w-64 p-2">
-                  {/* Image */}
-                  <div className="relative h-32 mb-3 rounded-lg overflow-hidden">
-                    <img
-                      src={listing.images[0]}
-                      alt={title}
-                      className="w-full h-full object-cover"
-                    />
-                    <div className="absolute top-2 left-2">
-                      <span
-                        className={`px-2 py-1 rounded-full text-xs font-medium ${
-                          listing.category === "restaurant"
-                            ? "bg-blue-100 text-blue-800"
-                            : listing.category === "event"
-                            ? "bg-purple-100 text-purple-800"
-                            : "bg-green-100 text-green-800"
-                        }`}
-                      >
-                        {getCategoryLabel(listing.category)}
-                      </span>
-                    </div>
-                  </div>
+        <MapControls
+          listings={listings}
+          center={center}
+          zoom={zoom}
+          fullscreenTargetRef={wrapperRef}
+          onLocate={onNearMe}
+          isLocationActive={Boolean(userLocation)}
+          currentLanguage={currentLanguage}
+        />
 
-                  {/* Content */}
-                  <div className="space-y-2">
-                    <h3 className="font-semibold text-gray-900 text-sm line-clamp-1">
-                      {title}
-                    </h3>
+        {onSearchAreaChange && (
+          <MapAreaSearch
+            area={searchArea}
+            onAreaChange={onSearchAreaChange}
+            currentLanguage={currentLanguage}
+          />
+        )}
 
-                    <div className="flex items-center space-x-1">
-                      <Star className="w-3 h-3 text-yellow-400 fill-current" />
-                      <span className="text-xs text-gray-600">
-                        {listing.rating} ({listing.reviewCount})
-                      </span>
-                    </div>
+        {/* Directions */}
+        {routePath && routePath.length > 1 && (
+          <>
+            <RouteFitter path={routePath} />
+            <Polyline
+              positions={routePath.map((point) => [point.lat, point.lng])}
+              pathOptions={{ color: "#1ABC9C", weight: 5, opacity: 0.8 }}
+            />
+            <CircleMarker
+              center={[routePath[0].lat, routePath[0].lng]}
+              radius={6}
+              pathOptions={{
+                color: "white",
+                weight: 3,
+                fillColor: "#1ABC9C",
+                fillOpacity: 1,
+              }}
+            />
+          </>
+        )}
 
-                    <div className="flex items-center space-x-1 text-gray-500">
-                      <MapPin className="w-3 h-3" />
-                      <span className="text-xs line-clamp-1">{address}</span>
-                    </div>
+        {/* User Location and Search Radius */}
+        {userLocation && (
+          <>
+            {userLocation.radius && (
+              <Circle
+                center={[userLocation.lat, userLocation.lng]}
+                radius={userLocation.radius * 1000}
+                pathOptions={{
+                  color: "#1ABC9C",
+                  weight: 1,
+                  fillOpacity: 0.08,
+                }}
+              />
+            )}
+            <CircleMarker
+              center={[userLocation.lat, userLocation.lng]}
+              radius={7}
+              pathOptions={{
+                color: "white",
+                weight: 3,
+                fillColor: "#1ABC9C",
+                fillOpacity: 1,
+              }}
+            />
+          </>
+        )}
 
-                    <div className="flex justify-between items-center pt-2">
-                      <span className="font-bold text-accent">
-                        {listing.price} MAD
-                      </span>
-                      <button
-                        onClick={() => onListingClick?.(listing)}
-                        className="px-3 py-1 bg-accent text-white text-xs rounded-lg hover:bg-accent/90 transition-colors"
-                      >
-                        {currentLanguage === "en"
-                          ? "View Details"
-                          : "Voir Détails"}
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              </Popup>
-            </Marker>
-          );
-        })}
+        <MarkerClusterLayer
+          listings={listings}
+          renderMarker={renderMarker}
+          highlightedListingId={highlightedListingId}
+        />
       </MapContainer>
 
-      {/* Map Controls Overlay */}
-      <div className="absolute top-4 right-4 z-[1000] space-y-2">
-        <button
-          onClick={() => {
-            // Reset to default view
-            const mapElement = document.querySelector(".leaflet-container");
-            if (mapElement) {
-              const map = (mapElement as any)._leaflet_map;
-              map.setView(center, zoom);
-            }
-          }}
-          className="bg-white dark:bg-gray-800 p-2 rounded-lg shadow-lg border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-          title={
-            currentLanguage === "en" ? "Reset View" : "Réinitialiser la Vue"
-          }
-        >
-          <MapPin className="w-4 h-4 text-gray-600 dark:text-gray-400" />
-        </button>
-      </div>
-
       {/* Selected Listing Indicator */}
       {selectedListing && (
         <div className="absolute bottom-4 left-4 right-4 z-[1000]">
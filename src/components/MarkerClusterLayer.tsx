@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from "react";
+import { Marker, useMap, useMapEvents } from "react-leaflet";
+import L from "leaflet";
+import { moveMap } from "@/lib/mapMoves";
+import { Listing } from "@/lib/mockData";
+
+export const CATEGORY_COLORS: Record<Listing["category"], string> = {
+  restaurant: "#3B82F6", // Blue
+  event: "#8B5CF6", // Purple
+  cultural: "#10B981", // Green
+};
+
+const DEFAULT_COLOR = "#6B7280";
+const HIGHLIGHT_COLOR = "#1ABC9C";
+
+// Grid cell size in pixels; listings sharing a cell are grouped
+const CLUSTER_CELL_SIZE = 60;
+// From this zoom up every listing gets its own marker
+const CLUSTER_MAX_ZOOM = 16;
+
+const getCategoryColor = (category: string) =>
+  CATEGORY_COLORS[category as Listing["category"]] || DEFAULT_COLOR;
+
+// Icons are built once per category (and per cluster look) and reused
+const categoryIcons = new Map<string, L.DivIcon>();
+const clusterIcons = new Map<string, L.DivIcon>();
+
+export const getCategoryIcon = (category: string, highlighted = false) => {
+  const key = `${category}-${highlighted}`;
+  const cached = categoryIcons.get(key);
+  if (cached) return cached;
+
+  const size = highlighted ? 32 : 24;
+  const shadow = highlighted
+    ? `0 0 0 3px ${HIGHLIGHT_COLOR}, 0 2px 8px rgba(0,0,0,0.4)`
+    : "0 2px 8px rgba(0,0,0,0.3)";
+  const icon = L.divIcon({
+    html: `
+      <div style="
+        background-color: ${getCategoryColor(category)};
+        width: ${size}px;
+        height: ${size}px;
+        border-radius: 50%;
+        border: 3px solid white;
+        box-shadow: ${shadow};
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      ">
+        <div style="
+          width: 8px;
+          height: 8px;
+          background-color: white;
+          border-radius: 50%;
+        "></div>
+      </div>
+    `,
+    className: "custom-marker",
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+  categoryIcons.set(key, icon);
+  return icon;
+};
+
+const getClusterIcon = (
+  count: number,
+  category: string,
+  highlighted = false
+) => {
+  const key = `${category}-${count}-${highlighted}`;
+  const cached = clusterIcons.get(key);
+  if (cached) return cached;
+
+  const size = count < 10 ? 36 : count < 100 ? 44 : 52;
+  const color = getCategoryColor(category);
+  const ring = highlighted ? HIGHLIGHT_COLOR : `${color}55`;
+  const icon = L.divIcon({
+    html: `
+      <div style="
+        background-color: ${color};
+        width: ${size}px;
+        height: ${size}px;
+        border-radius: 50%;
+        border: 3px solid white;
+        box-shadow: 0 0 0 4px ${ring}, 0 2px 8px rgba(0,0,0,0.3);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        color: white;
+        font-weight: 700;
+        font-size: 13px;
+      ">${count}</div>
+    `,
+    className: "custom-marker",
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+  clusterIcons.set(key, icon);
+  return icon;
+};
+
+interface ListingCluster {
+  key: string;
+  listings: Listing[];
+  position: [number, number];
+  category: string;
+}
+
+// The most common category in a cluster; ties go to the one seen first
+const getDominantCategory = (listings: Listing[]) => {
+  const counts = new Map<string, number>();
+  listings.forEach((listing) => {
+    counts.set(listing.category, (counts.get(listing.category) || 0) + 1);
+  });
+
+  let dominant = listings[0].category as string;
+  counts.forEach((count, category) => {
+    if (count > (counts.get(dominant) || 0)) dominant = category;
+  });
+  return dominant;
+};
+
+// Buckets listings into a pixel grid at the given zoom, placing each group at
+// the average position of its listings
+const clusterListings = (
+  map: L.Map,
+  listings: Listing[],
+  zoom: number
+): ListingCluster[] => {
+  const cells = new Map<string, Listing[]>();
+
+  listings.forEach((listing) => {
+    const point = map.project(
+      [listing.location.lat, listing.location.lng],
+      zoom
+    );
+    const key = `${Math.floor(point.x / CLUSTER_CELL_SIZE)}:${Math.floor(
+      point.y / CLUSTER_CELL_SIZE
+    )}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(listing);
+    } else {
+      cells.set(key, [listing]);
+    }
+  });
+
+  return Array.from(cells, ([key, cellListings]) => ({
+    key,
+    listings: cellListings,
+    position: [
+      cellListings.reduce((sum, l) => sum + l.location.lat, 0) /
+        cellListings.length,
+      cellListings.reduce((sum, l) => sum + l.location.lng, 0) /
+        cellListings.length,
+    ],
+    category: getDominantCategory(cellListings),
+  }));
+};
+
+interface MarkerClusterLayerProps {
+  listings: Listing[];
+  // Renders the marker (and popup) of a listing shown on its own
+  renderMarker: (listing: Listing) => React.ReactNode;
+  // A clustered listing highlights its whole cluster
+  highlightedListingId?: string | null;
+}
+
+// Groups nearby listings into clusters depending on the zoom level. Only
+// listings around the visible part of the map are rendered.
+const MarkerClusterLayer: React.FC<MarkerClusterLayerProps> = ({
+  listings,
+  renderMarker,
+  highlightedListingId,
+}) => {
+  const map = useMap();
+  const [view, setView] = useState(() => ({
+    zoom: map.getZoom(),
+    bounds: map.getBounds(),
+  }));
+
+  useMapEvents({
+    moveend: () => setView({ zoom: map.getZoom(), bounds: map.getBounds() }),
+  });
+
+  const clusters = useMemo(() => {
+    const area = view.bounds.pad(0.5);
+    const visible = listings.filter((listing) =>
+      area.contains([listing.location.lat, listing.location.lng])
+    );
+
+    if (view.zoom >= CLUSTER_MAX_ZOOM) {
+      return visible.map((listing) => ({
+        key: listing.id,
+        listings: [listing],
+        position: [listing.location.lat, listing.location.lng] as [
+          number,
+          number
+        ],
+        category: listing.category,
+      }));
+    }
+    return clusterListings(map, visible, view.zoom);
+  }, [map, listings, view]);
+
+  const zoomToCluster = (cluster: ListingCluster) => {
+    const bounds = L.latLngBounds(
+      cluster.listings.map((listing) => [
+        listing.location.lat,
+        listing.location.lng,
+      ])
+    );
+    moveMap(map, () =>
+      map.fitBounds(bounds, { padding: [48, 48], maxZoom: CLUSTER_MAX_ZOOM })
+    );
+  };
+
+  return (
+    <>
+      {clusters.map((cluster) =>
+        cluster.listings.length === 1 ? (
+          <React.Fragment key={cluster.listings[0].id}>
+            {renderMarker(cluster.listings[0])}
+          </React.Fragment>
+        ) : (
+          <Marker
+            key={`cluster-${cluster.key}`}
+            position={cluster.position}
+            icon={getClusterIcon(
+              cluster.listings.length,
+              cluster.category,
+              cluster.listings.some(
+                (listing) => listing.id === highlightedListingId
+              )
+            )}
+            eventHandlers={{ click: () => zoomToCluster(cluster) }}
+          />
+        )
+      )}
+    </>
+  );
+};
+
+export default MarkerClusterLayer;
@@ -2,7 +2,6 @@ import React, { useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import {
-  Search,
   User,
   Heart,
   MapPin,
@@ -18,6 +17,7 @@ import {
   Compass,
 } from "lucide-react";
 import { mockUser } from "@/lib/mockData";
+import SearchAutocomplete from "@/components/SearchAutocomplete";
 
 interface NavbarProps {
   onThemeToggle?: () => void;
@@ -34,7 +34,6 @@ const Navbar: React.FC<NavbarProps> = ({
 }) => {
   const router = useRouter();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState("");
 
   const navigation = [
     { name: "Home", nameFr: "Accueil", href: "/", icon: Home },
@@ -43,14 +42,6 @@ const Navbar: React.FC<NavbarProps> = ({
     { name: "Profile", nameFr: "Profil", href: "/profile", icon: User },
   ];
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      router.push(`/explore?search=${encodeURIComponent(searchQuery.trim())}`);
-      setSearchQuery("");
-    }
-  };
-
   const isActive = (href: string) => {
     if (href === "/") return router.pathname === "/";
     return router.pathname.startsWith(href);
@@ -79,34 +70,20 @@ const Navbar: React.FC<NavbarProps> = ({
 
           {/* Search Bar - Desktop */}
           <div className="hidden lg:flex flex-1 max-w-3xl mx-12">
-            <form onSubmit={handleSearch} className="w-full">
-              <div className="relative group">
-                <input
-                  type="text"
-                  placeholder={
-                    currentLanguage === "en"
-                      ? "Search experiences, restaurants, events..."
-                      : "Rechercher des expériences, restaurants, événements..."
-                  }
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="w-full pl-16 pr-8 py-5 border border-gray-200 dark:border-gray-600 rounded-3xl 
+            <SearchAutocomplete
+              currentLanguage={currentLanguage}
+              placeholder={
+                currentLanguage === "en"
+                  ? "Search experiences, restaurants, events..."
+                  : "Rechercher des expériences, restaurants, événements..."
+              }
+              inputClassName="w-full pl-16 pr-8 py-5 border border-gray-200 dark:border-gray-600 rounded-3xl 
                            bg-gray-50/50 dark:bg-gray-800/50 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400
                            focus:ring-2 focus:ring-accent/20 focus:border-accent focus:bg-white dark:focus:bg-gray-800 
                            transition-all duration-200 text-lg shadow-lg"
-                />
-                <Search className="absolute left-6 top-1/2 transform -translate-y-1/2 w-6 h-6 text-gray-400 group-focus-within:text-accent transition-colors" />
-                {searchQuery && (
-                  <button
-                    type="button"
-                    onClick={() => setSearchQuery("")}
-                    className="absolute right-6 top-1/2 transform -translate-y-1/2 w-6 h-6 text-gray-400 hover:text-gray-600 transition-colors"
-                  >
-                    <X className="w-5 h-5" />
-                  </button>
-                )}
-              </div>
-            </form>
+              iconClassName="absolute left-6 top-1/2 transform -translate-y-1/2 w-6 h-6 text-gray-400 group-focus-within:text-accent transition-colors"
+              showClearButton
+            />
           </div>
 
           {/* Desktop Navigation */}
@@ -220,24 +197,18 @@ const Navbar: React.FC<NavbarProps> = ({
 
         {/* Mobile Search */}
         <div className="lg:hidden pb-10 pt-4">
-          <form onSubmit={handleSearch}>
-            <div className="relative">
-              <input
-                type="text"
-                placeholder={
-                  currentLanguage === "en"
-                    ? "Search experiences..."
-                    : "Rechercher des expériences..."
-                }
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full pl-16 pr-8 py-5 border border-gray-200 dark:border-gray-600 rounded-3xl 
+          <SearchAutocomplete
+            currentLanguage={currentLanguage}
+            placeholder={
+              currentLanguage === "en"
+                ? "Search experiences..."
+                : "Rechercher des expériences..."
+            }
+            inputClassName="w-full pl-16 pr-8 py-5 border border-gray-200 dark:border-gray-600 rounded-3xl 
                          bg-gray-50/50 dark:bg-gray-800/50 text-gray-900 dark:text-white text-lg
                          focus:ring-2 focus:ring-accent/20 focus:border-accent transition-all duration-200 shadow-lg"
-              />
-              <Search className="absolute left-6 top-1/2 transform -translate-y-1/2 w-6 h-6 text-gray-400" />
-            </div>
-          </form>
+            iconClassName="absolute left-6 top-1/2 transform -translate-y-1/2 w-6 h-6 text-gray-400"
+          />
         </div>
       </div>
 
@@ -0,0 +1,100 @@
+import React from "react";
+import {
+  formatPrice,
+  ParticipantType,
+  PriceQuote,
+  VAT_RATE,
+} from "@/lib/pricing";
+
+export const PARTICIPANT_LABELS: Record<
+  ParticipantType,
+  { en: string; fr: string }
+> = {
+  adult: { en: "Adults", fr: "Adultes" },
+  child: { en: "Children", fr: "Enfants" },
+  student: { en: "Students", fr: "Étudiants" },
+};
+
+interface PriceBreakdownProps {
+  quote: PriceQuote;
+  currentLanguage?: "en" | "fr";
+  totalLabel?: string;
+}
+
+// Itemised price of a booking: participants, discount, fees and VAT
+const PriceBreakdown: React.FC<PriceBreakdownProps> = ({
+  quote,
+  currentLanguage = "en",
+  totalLabel,
+}) => {
+  const price = (amount: number) =>
+    `${formatPrice(amount, currentLanguage)} ${quote.currency}`;
+  const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+  return (
+    <div className="space-y-2">
+      {quote.override && (
+        <div className="text-xs font-medium text-accent">
+          {currentLanguage === "en"
+            ? quote.override.label
+            : quote.override.labelFr}
+          : {price(quote.basePrice)}{" "}
+          {currentLanguage === "en" ? "per adult" : "par adulte"}
+        </div>
+      )}
+
+      {quote.lines.map((line) => (
+        <div key={line.type} className="flex justify-between text-sm">
+          <span className="text-gray-600 dark:text-gray-400">
+            {PARTICIPANT_LABELS[line.type][currentLanguage]} × {line.count}{" "}
+            <span className="text-gray-400 dark:text-gray-500">
+              ({price(line.unitPrice)})
+            </span>
+          </span>
+          <span className="text-gray-900 dark:text-white">
+            {price(line.amount)}
+          </span>
+        </div>
+      ))}
+
+      {quote.discount && (
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-600 dark:text-gray-400">
+            {currentLanguage === "en" ? "Group discount" : "Remise de groupe"} (
+            {percent(quote.discount.rate)})
+          </span>
+          <span className="text-green-600 dark:text-green-400">
+            −{price(quote.discount.amount)}
+          </span>
+        </div>
+      )}
+
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600 dark:text-gray-400">
+          {currentLanguage === "en" ? "Service fee" : "Frais de service"}
+        </span>
+        <span className="text-gray-900 dark:text-white">
+          {price(quote.serviceFee)}
+        </span>
+      </div>
+
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600 dark:text-gray-400">
+          {currentLanguage === "en" ? "VAT" : "TVA"} ({percent(VAT_RATE)})
+        </span>
+        <span className="text-gray-900 dark:text-white">
+          {price(quote.vat)}
+        </span>
+      </div>
+
+      <div className="flex justify-between font-medium pt-2 border-t border-gray-300 dark:border-gray-600">
+        <span className="text-gray-900 dark:text-white">
+          {totalLabel || (currentLanguage === "en" ? "Total" : "Total")}:
+        </span>
+        <span className="text-accent">{price(quote.total)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PriceBreakdown;
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from "react";
+
+interface PriceRangeSliderProps {
+  // Catalogue bounds and price histogram; until they load only the numeric
+  // inputs are shown
+  range?: { min: number; max: number };
+  histogram?: { min: number; max: number; count: number }[];
+  minPrice?: number;
+  maxPrice?: number;
+  onChange: (minPrice?: number, maxPrice?: number) => void;
+  currentLanguage?: "en" | "fr";
+}
+
+// Empty means no bound; anything else has to be a non-negative number
+const parsePrice = (text: string): number | undefined | null => {
+  if (text.trim() === "") return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+const PriceRangeSlider: React.FC<PriceRangeSliderProps> = ({
+  range,
+  histogram = [],
+  minPrice,
+  maxPrice,
+  onChange,
+  currentLanguage = "en",
+}) => {
+  const [minText, setMinText] = useState(minPrice?.toString() ?? "");
+  const [maxText, setMaxText] = useState(maxPrice?.toString() ?? "");
+
+  useEffect(() => {
+    setMinText(minPrice?.toString() ?? "");
+  }, [minPrice]);
+
+  useEffect(() => {
+    setMaxText(maxPrice?.toString() ?? "");
+  }, [maxPrice]);
+
+  const handleMinTextChange = (text: string) => {
+    setMinText(text);
+    const value = parsePrice(text);
+    if (value !== null) onChange(value, maxPrice);
+  };
+
+  const handleMaxTextChange = (text: string) => {
+    setMaxText(text);
+    const value = parsePrice(text);
+    if (value !== null) onChange(minPrice, value);
+  };
+
+  // Typed bounds may cross; put them back in order once editing is done
+  const handleBlur = () => {
+    if (
+      minPrice !== undefined &&
+      maxPrice !== undefined &&
+      minPrice > maxPrice
+    ) {
+      onChange(maxPrice, minPrice);
+    }
+  };
+
+  const renderInputs = () => (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+          Min (MAD)
+        </label>
+        <input
+          type="number"
+          inputMode="numeric"
+          min={0}
+          value={minText}
+          onChange={(e) => handleMinTextChange(e.target.value)}
+          onBlur={handleBlur}
+          placeholder={range ? range.min.toString() : "0"}
+          className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-accent focus:border-transparent"
+        />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+          Max (MAD)
+        </label>
+        <input
+          type="number"
+          inputMode="numeric"
+          min={0}
+          value={maxText}
+          onChange={(e) => handleMaxTextChange(e.target.value)}
+          onBlur={handleBlur}
+          placeholder={
+            range
+              ? range.max.toString()
+              : currentLanguage === "en"
+              ? "Any"
+              : "Tous"
+          }
+          className="w-full p-3 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-accent focus:border-transparent"
+        />
+      </div>
+    </div>
+  );
+
+  if (!range) {
+    return renderInputs();
+  }
+
+  const span = range.max - range.min;
+  const clamp = (value: number) =>
+    Math.min(Math.max(value, range.min), range.max);
+  const lower = clamp(minPrice ?? range.min);
+  const upper = Math.max(clamp(maxPrice ?? range.max), lower);
+  const toPercent = (value: number) =>
+    span > 0 ? ((value - range.min) / span) * 100 : 0;
+  const maxCount = Math.max(1, ...histogram.map((bin) => bin.count));
+
+  // A handle at either end of the catalogue range means "no bound"
+  const handleLowerChange = (value: number) => {
+    const next = Math.min(value, upper);
+    onChange(next <= range.min ? undefined : next, maxPrice);
+  };
+
+  const handleUpperChange = (value: number) => {
+    const next = Math.max(value, lower);
+    onChange(minPrice, next >= range.max ? undefined : next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Histogram */}
+      <div className="flex items-end h-16 gap-0.5" aria-hidden="true">
+        {histogram.map((bin, index) => {
+          const inRange = bin.max >= lower && bin.min <= upper;
+
+          return (
+            <div
+              key={index}
+              className={`flex-1 rounded-t ${
+                inRange ? "bg-accent/60" : "bg-gray-200 dark:bg-gray-700"
+              }`}
+              style={{
+                height: `${
+                  bin.count > 0 ? Math.max((bin.count / maxCount) * 100, 8) : 2
+                }%`,
+              }}
+            />
+          );
+        })}
+      </div>
+
+      {/* Dual-handle slider */}
+      <div className="relative h-5">
+        <div className="absolute top-1/2 left-0 right-0 h-1.5 -translate-y-1/2 rounded-full bg-gray-200 dark:bg-gray-700" />
+        <div
+          className="absolute top-1/2 h-1.5 -translate-y-1/2 rounded-full bg-accent"
+          style={{
+            left: `${toPercent(lower)}%`,
+            right: `${100 - toPercent(upper)}%`,
+          }}
+        />
+        <input
+          type="range"
+          min={range.min}
+          max={range.max}
+          step={1}
+          value={lower}
+          onChange={(e) => handleLowerChange(Number(e.target.value))}
+          disabled={span === 0}
+          aria-label={
+            currentLanguage === "en" ? "Minimum price" : "Prix minimum"
+          }
+          // When the handles meet, keep the one that can still move on top
+          style={{ zIndex: toPercent(lower) > 50 ? 3 : 1 }}
+          className="range-thumb absolute inset-0 w-full"
+        />
+        <input
+          type="range"
+          min={range.min}
+          max={range.max}
+          step={1}
+          value={upper}
+          onChange={(e) => handleUpperChange(Number(e.target.value))}
+          disabled={span === 0}
+          aria-label={
+            currentLanguage === "en" ? "Maximum price" : "Prix maximum"
+          }
+          style={{ zIndex: 2 }}
+          className="range-thumb absolute inset-0 w-full"
+        />
+      </div>
+
+      <div className="flex justify-between text-sm font-medium text-gray-700 dark:text-gray-300">
+        <span>{lower} MAD</span>
+        <span>
+          {upper} MAD{maxPrice === undefined && "+"}
+        </span>
+      </div>
+
+      {renderInputs()}
+    </div>
+  );
+};
+
+export default PriceRangeSlider;
@@ -0,0 +1,315 @@
+import React, { useEffect, useId, useRef, useState } from "react";
+import { useRouter } from "next/router";
+import { Search, X, Clock, Compass, Tag, MapPin } from "lucide-react";
+import {
+  getSearchSuggestions,
+  ListingCategory,
+  SearchSuggestion,
+} from "@/lib/api";
+import { toExploreQuery } from "@/lib/listingQuery";
+import {
+  addRecentSearch,
+  clearRecentSearches,
+  getRecentSearches,
+} from "@/lib/recentSearches";
+
+const DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+interface SearchAutocompleteProps {
+  currentLanguage: "en" | "fr";
+  placeholder: string;
+  inputClassName: string;
+  iconClassName: string;
+  showClearButton?: boolean;
+}
+
+// Dropdown entries: server suggestions while typing, recent searches when
+// the field is empty
+type AutocompleteItem =
+  | { kind: "suggestion"; suggestion: SearchSuggestion }
+  | { kind: "recent"; query: string };
+
+const SearchAutocomplete: React.FC<SearchAutocompleteProps> = ({
+  currentLanguage,
+  placeholder,
+  inputClassName,
+  iconClassName,
+  showClearButton = false,
+}) => {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const requestIdRef = useRef(0);
+  const listboxId = `search-suggestions-${useId()}`;
+
+  const trimmedQuery = query.trim();
+  const showSuggestions = trimmedQuery.length >= MIN_QUERY_LENGTH;
+
+  useEffect(() => {
+    setRecentSearches(getRecentSearches());
+  }, []);
+
+  // Debounced fetch; responses to an outdated query are dropped
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    if (trimmedQuery.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await getSearchSuggestions(trimmedQuery);
+        if (requestId === requestIdRef.current) {
+          setSuggestions(results);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        // Suggestions are optional; submitting still searches
+        console.error("Error loading search suggestions:", error);
+        if (requestId === requestIdRef.current) {
+          setSuggestions([]);
+        }
+      }
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [trimmedQuery]);
+
+  const items: AutocompleteItem[] = showSuggestions
+    ? suggestions.map((suggestion) => ({ kind: "suggestion", suggestion }))
+    : recentSearches.map((recent) => ({ kind: "recent", query: recent }));
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const searchFor = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    setRecentSearches(addRecentSearch(trimmed));
+    router.push({
+      pathname: "/explore",
+      query: toExploreQuery({
+        filters: { query: trimmed },
+        sort: "recommended",
+        page: 1,
+        view: "list",
+      }),
+    });
+    setQuery("");
+    close();
+  };
+
+  const selectItem = (item: AutocompleteItem) => {
+    if (item.kind === "recent") {
+      searchFor(item.query);
+      return;
+    }
+
+    const { suggestion } = item;
+    const label =
+      currentLanguage === "en" ? suggestion.label : suggestion.labelFr;
+
+    switch (suggestion.type) {
+      case "listing":
+        setRecentSearches(addRecentSearch(label));
+        router.push(`/listing/${suggestion.value}`);
+        setQuery("");
+        close();
+        break;
+      case "category":
+        router.push({
+          pathname: "/explore",
+          query: toExploreQuery({
+            filters: {
+              category: [suggestion.value as ListingCategory],
+            },
+            sort: "recommended",
+            page: 1,
+            view: "list",
+          }),
+        });
+        setQuery("");
+        close();
+        break;
+      case "neighbourhood":
+        searchFor(label);
+        break;
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isOpen && activeIndex >= 0 && items[activeIndex]) {
+      selectItem(items[activeIndex]);
+    } else {
+      searchFor(query);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (items.length === 0) return;
+      e.preventDefault();
+      setIsOpen(true);
+      // -1 is the input itself, so the selection wraps through it
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((current) => {
+        const next = current + step;
+        if (next >= items.length) return -1;
+        if (next < -1) return items.length - 1;
+        return next;
+      });
+    } else if (e.key === "Escape") {
+      close();
+    }
+  };
+
+  const handleClearRecent = () => {
+    clearRecentSearches();
+    setRecentSearches([]);
+    setActiveIndex(-1);
+  };
+
+  const getItemIcon = (item: AutocompleteItem) => {
+    if (item.kind === "recent") return Clock;
+    switch (item.suggestion.type) {
+      case "category":
+        return Tag;
+      case "neighbourhood":
+        return MapPin;
+      default:
+        return Compass;
+    }
+  };
+
+  const getItemLabel = (item: AutocompleteItem) => {
+    if (item.kind === "recent") return item.query;
+    return currentLanguage === "en"
+      ? item.suggestion.label
+      : item.suggestion.labelFr;
+  };
+
+  const getTypeLabel = (item: AutocompleteItem) => {
+    if (item.kind === "recent") return null;
+    const labels = {
+      listing: currentLanguage === "en" ? "Experience" : "Expérience",
+      category: currentLanguage === "en" ? "Category" : "Catégorie",
+      neighbourhood: currentLanguage === "en" ? "Neighbourhood" : "Quartier",
+    };
+    return labels[item.suggestion.type];
+  };
+
+  // Recent searches only before typing, suggestions only once they arrive
+  const isDropdownVisible =
+    isOpen && (showSuggestions ? items.length > 0 : recentSearches.length > 0);
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full">
+      <div className="relative group">
+        <input
+          type="text"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={isDropdownVisible}
+          aria-controls={listboxId}
+          aria-activedescendant={
+            activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined
+          }
+          placeholder={placeholder}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+            setActiveIndex(-1);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={close}
+          onKeyDown={handleKeyDown}
+          className={inputClassName}
+        />
+        <Search className={iconClassName} />
+        {showClearButton && query && (
+          <button
+            type="button"
+            onClick={() => setQuery("")}
+            className="absolute right-6 top-1/2 transform -translate-y-1/2 w-6 h-6 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        )}
+
+        {/* Suggestions Dropdown */}
+        {isDropdownVisible && (
+          <div
+            // Keep focus in the input while clicking inside the dropdown
+            onMouseDown={(e) => e.preventDefault()}
+            className="absolute left-0 right-0 top-full mt-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-3xl shadow-xl overflow-hidden z-10"
+          >
+            {!showSuggestions && (
+              <div className="flex items-center justify-between px-6 pt-4 pb-2">
+                <span className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                  {currentLanguage === "en"
+                    ? "Recent searches"
+                    : "Recherches récentes"}
+                </span>
+                <button
+                  type="button"
+                  onClick={handleClearRecent}
+                  className="text-sm text-accent hover:underline"
+                >
+                  {currentLanguage === "en" ? "Clear" : "Effacer"}
+                </button>
+              </div>
+            )}
+            <ul id={listboxId} role="listbox" className="py-2">
+              {items.map((item, index) => {
+                const Icon = getItemIcon(item);
+                const typeLabel = getTypeLabel(item);
+                const active = index === activeIndex;
+
+                return (
+                  <li
+                    key={
+                      item.kind === "recent"
+                        ? `recent-${item.query}`
+                        : `${item.suggestion.type}-${item.suggestion.value}`
+                    }
+                    id={`${listboxId}-${index}`}
+                    role="option"
+                    aria-selected={active}
+                    onClick={() => selectItem(item)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={`flex items-center space-x-4 px-6 py-3 cursor-pointer transition-colors ${
+                      active
+                        ? "bg-accent/10 text-accent"
+                        : "text-gray-700 dark:text-gray-300"
+                    }`}
+                  >
+                    <Icon className="w-5 h-5 flex-shrink-0" />
+                    <span className="flex-1 truncate">
+                      {getItemLabel(item)}
+                    </span>
+                    {typeLabel && (
+                      <span className="text-xs text-gray-400 dark:text-gray-500">
+                        {typeLabel}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default SearchAutocomplete;
@@ -1,24 +1,51 @@
-import { Listing, User, Booking } from "./mockData";
-import { mockListings, mockUser } from "./mockData";
+import { Listing, User, Booking, SlotHold } from "./mockData";
+import type { CardDetails, PaymentIntent } from "./payments";
+import { filtersToQuery, toListingQuery } from "./listingQuery";
+import { createMockTransport } from "./mockTransport";
+import { NotFoundError } from "./errors";
+import { createHttpTransport, Transport } from "./transport";
+import type { GeoArea } from "./geo";
 
-// Base API URL - will be updated when FastAPI backend is ready
-const API_BASE_URL =
-  process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000/api";
+export type TimeOfDay = "morning" | "afternoon" | "evening";
 
-// Simulate API delay for realistic UX
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+export type ListingCategory = Listing["category"];
 
 export interface ListingFilters {
-  category?: "restaurant" | "event" | "cultural";
+  query?: string; // free text, see lib/search for what is matched
+  category?: ListingCategory[]; // matches any of the selected categories
   minPrice?: number;
   maxPrice?: number;
   minRating?: number;
-  date?: string;
+  date?: string; // YYYY-MM-DD, start of the range when dateTo is set
+  dateTo?: string; // YYYY-MM-DD, inclusive
+  timeOfDay?: TimeOfDay;
+  amenities?: string[];
+  amenitiesMatch?: "all" | "any"; // how amenities combine, defaults to "all"
+  verifiedHost?: boolean;
   location?: {
     lat: number;
     lng: number;
     radius: number; // in km
   };
+  area?: GeoArea; // drawn on or panned to on the map
+}
+
+export type ListingSortKey =
+  | "recommended"
+  | "price_asc"
+  | "price_desc"
+  | "rating"
+  | "reviews"
+  | "newest"
+  | "distance";
+
+export interface ListingSort {
+  key: ListingSortKey;
+  // Reference point for "distance"; falls back to filters.location
+  origin?: {
+    lat: number;
+    lng: number;
+  };
 }
 
 export interface PaginatedResponse<T> {
@@ -27,262 +54,287 @@ export interface PaginatedResponse<T> {
   page: number;
   limit: number;
   hasMore: boolean;
+  // Opaque position after the last item; pass it back to get the next page.
+  // Unlike page numbers it doesn't shift when listings are added or removed.
+  nextCursor: string | null;
+}
+
+// Per-option result counts for the filter drawer
+export interface ListingFacets {
+  categories: Record<ListingCategory, number>;
+  priceRange: { min: number; max: number }; // across the whole catalogue
+  priceHistogram: { min: number; max: number; count: number }[];
+  ratings: { value: number; count: number }[];
+  amenities: { value: string; count: number }[];
+}
+
+export type SearchSuggestionType = "listing" | "category" | "neighbourhood";
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  value: string; // listing id, category key or neighbourhood name
+  label: string;
+  labelFr: string;
+}
+
+// Slot inventory for the booking form
+export interface SlotAvailability {
+  time: string;
+  capacity: number;
+  remaining: number;
+}
+
+export interface DayAvailability {
+  date: string;
+  slots: SlotAvailability[];
+}
+
+// Number of filters in use, for the active-filter badges: one per selected
+// category, one per other filter group. The text query is shown separately
+// and not counted.
+export function countActiveFilters(filters: ListingFilters): number {
+  let count = filters.category?.length || 0;
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) count++;
+  if (filters.minRating !== undefined) count++;
+  if (filters.date) count++;
+  if (filters.timeOfDay) count++;
+  if (filters.amenities?.length) count++;
+  if (filters.verifiedHost) count++;
+  if (filters.location) count++;
+  if (filters.area) count++;
+  return count;
+}
+
+// Transport selection: NEXT_PUBLIC_API_TRANSPORT=http talks to the backend at
+// NEXT_PUBLIC_API_URL, anything else uses the in-memory mock data.
+function createTransport(): Transport {
+  return process.env.NEXT_PUBLIC_API_TRANSPORT === "http"
+    ? createHttpTransport()
+    : createMockTransport();
+}
+
+let transport: Transport | null = null;
+
+function getTransport(): Transport {
+  if (!transport) {
+    transport = createTransport();
+  }
+  return transport;
+}
+
+// Swap the transport at runtime (e.g. to point at another backend)
+export function setTransport(next: Transport): void {
+  transport = next;
 }
 
 // Listings API
 export async function getListings(
   filters?: ListingFilters,
   page = 1,
-  limit = 10
+  limit = 10,
+  sort?: ListingSort,
+  cursor?: string // takes precedence over page
 ): Promise<PaginatedResponse<Listing>> {
-  await delay(800); // Simulate network delay
-
-  // TODO: Replace with actual API call
-  // const response = await fetch(`${API_BASE_URL}/listings?${new URLSearchParams({
-  //   page: page.toString(),
-  //   limit: limit.toString(),
-  //   ...filters
-  // })}`);
-  // return response.json();
-
-  let filteredListings = [...mockListings];
-
-  // Apply filters
-  if (filters) {
-    if (filters.category) {
-      filteredListings = filteredListings.filter(
-        (listing) => listing.category === filters.category
-      );
-    }
-    if (filters.minPrice) {
-      filteredListings = filteredListings.filter(
-        (listing) => listing.price >= filters.minPrice!
-      );
-    }
-    if (filters.maxPrice) {
-      filteredListings = filteredListings.filter(
-        (listing) => listing.price <= filters.maxPrice!
-      );
-    }
-    if (filters.minRating) {
-      filteredListings = filteredListings.filter(
-        (listing) => listing.rating >= filters.minRating!
-      );
-    }
-    if (filters.location) {
-      // Simple distance calculation for mock data
-      filteredListings = filteredListings.filter((listing) => {
-        const distance = calculateDistance(
-          filters.location!.lat,
-          filters.location!.lng,
-          listing.location.lat,
-          listing.location.lng
-        );
-        return distance <= filters.location!.radius;
-      });
-    }
-  }
-
-  // Pagination
-  const startIndex = (page - 1) * limit;
-  const endIndex = startIndex + limit;
-  const paginatedData = filteredListings.slice(startIndex, endIndex);
-
-  return {
-    data: paginatedData,
-    total: filteredListings.length,
-    page,
-    limit,
-    hasMore: endIndex < filteredListings.length,
-  };
+  return getTransport().request<PaginatedResponse<Listing>>({
+    method: "GET",
+    path: "/listings",
+    query: toListingQuery(filters, page, limit, sort, cursor),
+  });
 }
 
-export async function getListing(id: string): Promise<Listing | null> {
-  await delay(500);
-
-  // TODO: Replace with actual API call
-  // const response = await fetch(`${API_BASE_URL}/listings/${id}`);
-  // return response.json();
+export async function getListingFacets(
+  filters?: ListingFilters
+): Promise<ListingFacets> {
+  return getTransport().request<ListingFacets>({
+    method: "GET",
+    path: "/listings/facets",
+    query: filtersToQuery(filters),
+  });
+}
 
-  return mockListings.find((listing) => listing.id === id) || null;
+export async function getSearchSuggestions(
+  query: string,
+  limit = 8
+): Promise<SearchSuggestion[]> {
+  return getTransport().request<SearchSuggestion[]>({
+    method: "GET",
+    path: "/listings/suggestions",
+    query: { q: query, limit: limit.toString() },
+  });
 }
 
-export async function searchListings(query: string): Promise<Listing[]> {
-  await delay(600);
-
-  // TODO: Replace with actual API call
-  // const response = await fetch(`${API_BASE_URL}/listings/search?q=${encodeURIComponent(query)}`);
-  // return response.json();
-
-  const lowercaseQuery = query.toLowerCase();
-  return mockListings.filter(
-    (listing) =>
-      listing.title.toLowerCase().includes(lowercaseQuery) ||
-      listing.titleFr.toLowerCase().includes(lowercaseQuery) ||
-      listing.description.toLowerCase().includes(lowercaseQuery) ||
-      listing.descriptionFr.toLowerCase().includes(lowercaseQuery)
-  );
+export async function getListing(id: string): Promise<Listing | null> {
+  try {
+    return await getTransport().request<Listing>({
+      method: "GET",
+      path: `/listings/${encodeURIComponent(id)}`,
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
+  }
 }
 
 // User API
 export async function getUser(): Promise<User> {
-  await delay(400);
-
-  // TODO: Replace with actual API call
-  // const response = await fetch(`${API_BASE_URL}/user`, {
-  //   headers: { Authorization: `Bearer ${getAuthToken()}` }
-  // });
-  // return response.json();
-
-  return mockUser;
+  return getTransport().request<User>({
+    method: "GET",
+    path: "/user",
+    auth: true,
+  });
 }
 
 export async function updateUserPreferences(
   preferences: Partial<User["preferences"]>
 ): Promise<User> {
-  await delay(500);
-
-  // TODO: Replace with actual API call
-  // const response = await fetch(`${API_BASE_URL}/user/preferences`, {
-  //   method: 'PATCH',
-  //   headers: {
-  //     'Content-Type': 'application/json',
-  //     Authorization: `Bearer ${getAuthToken()}`
-  //   },
-  //   body: JSON.stringify(preferences)
-  // });
-  // return response.json();
-
-  mockUser.preferences = { ...mockUser.preferences, ...preferences };
-  return mockUser;
+  return getTransport().request<User>({
+    method: "PATCH",
+    path: "/user/preferences",
+    body: preferences,
+    auth: true,
+  });
 }
 
 // Wishlist API
 export async function addToWishlist(listingId: string): Promise<void> {
-  await delay(300);
-
-  // TODO: Replace with actual API call
-  // await fetch(`${API_BASE_URL}/user/wishlist`, {
-  //   method: 'POST',
-  //   headers: {
-  //     'Content-Type': 'application/json',
-  //     Authorization: `Bearer ${getAuthToken()}`
-  //   },
-  //   body: JSON.stringify({ listingId })
-  // });
-
-  if (!mockUser.wishlist.includes(listingId)) {
-    mockUser.wishlist.push(listingId);
-  }
+  await getTransport().request<void>({
+    method: "POST",
+    path: "/user/wishlist",
+    body: { listingId },
+    auth: true,
+  });
 }
 
 export async function removeFromWishlist(listingId: string): Promise<void> {
-  await delay(300);
-
-  // TODO: Replace with actual API call
-  // await fetch(`${API_BASE_URL}/user/wishlist/${listingId}`, {
-  //   method: 'DELETE',
-  //   headers: { Authorization: `Bearer ${getAuthToken()}` }
-  // });
-
-  mockUser.wishlist = mockUser.wishlist.filter((id) => id !== listingId);
+  await getTransport().request<void>({
+    method: "DELETE",
+    path: `/user/wishlist/${encodeURIComponent(listingId)}`,
+    auth: true,
+  });
 }
 
 export async function getWishlist(): Promise<Listing[]> {
-  await delay(500);
-
-  // TODO: Replace with actual API call
-  // const response = await fetch(`${API_BASE_URL}/user/wishlist`, {
-  //   headers: { Authorization: `Bearer ${getAuthToken()}` }
-  // });
-  // return response.json();
+  return getTransport().request<Listing[]>({
+    method: "GET",
+    path: "/user/wishlist",
+    auth: true,
+  });
+}
 
-  return mockListings.filter((listing) =>
-    mockUser.wishlist.includes(listing.id)
-  );
+export async function getListingAvailability(
+  listingId: string
+): Promise<DayAvailability[]> {
+  return getTransport().request<DayAvailability[]>({
+    method: "GET",
+    path: `/listings/${encodeURIComponent(listingId)}/availability`,
+  });
 }
 
 // Booking API
+// What the client sends for a booking; the backend always computes the price
+export type BookingRequest = Omit<
+  Booking,
+  "id" | "createdAt" | "totalPrice" | "paymentIntentId"
+>;
+
+// Pass the hold taken for the slot to turn it into the booking. Without an
+// authorised payment to capture, the booking stays pending.
 export async function createBooking(
-  booking: Omit<Booking, "id" | "createdAt">
+  booking: BookingRequest,
+  {
+    holdId,
+    paymentIntentId,
+  }: { holdId?: string; paymentIntentId?: string } = {}
 ): Promise<Booking> {
-  await delay(1000);
-
-  // TODO: Replace with actual API call
-  // const response = await fetch(`${API_BASE_URL}/bookings`, {
-  //   method: 'POST',
-  //   headers: {
-  //     'Content-Type': 'application/json',
-  //     Authorization: `Bearer ${getAuthToken()}`
-  //   },
-  //   body: JSON.stringify(booking)
-  // });
-  // return response.json();
-
-  const newBooking: Booking = {
-    ...booking,
-    id: `booking-${Date.now()}`,
-    createdAt: new Date().toISOString(),
-  };
-
-  mockUser.bookings.push(newBooking);
-  return newBooking;
+  return getTransport().request<Booking>({
+    method: "POST",
+    path: "/bookings",
+    body: { ...booking, holdId, paymentIntentId },
+    auth: true,
+  });
 }
 
 export async function getBookings(): Promise<Booking[]> {
-  await delay(400);
-
-  // TODO: Replace with actual API call
-  // const response = await fetch(`${API_BASE_URL}/user/bookings`, {
-  //   headers: { Authorization: `Bearer ${getAuthToken()}` }
-  // });
-  // return response.json();
-
-  return mockUser.bookings;
+  return getTransport().request<Booking[]>({
+    method: "GET",
+    path: "/user/bookings",
+    auth: true,
+  });
 }
 
 export async function cancelBooking(bookingId: string): Promise<void> {
-  await delay(500);
+  await getTransport().request<void>({
+    method: "POST",
+    path: `/bookings/${encodeURIComponent(bookingId)}/cancel`,
+    auth: true,
+  });
+}
+
+// Sets the places aside for a few minutes while the user pays
+export async function createHold(
+  hold: Omit<SlotHold, "id" | "expiresAt">
+): Promise<SlotHold> {
+  return getTransport().request<SlotHold>({
+    method: "POST",
+    path: "/holds",
+    body: hold,
+    auth: true,
+  });
+}
 
-  // TODO: Replace with actual API call
-  // await fetch(`${API_BASE_URL}/bookings/${bookingId}/cancel`, {
-  //   method: 'POST',
-  //   headers: { Authorization: `Bearer ${getAuthToken()}` }
-  // });
+export async function releaseHold(holdId: string): Promise<void> {
+  await getTransport().request<void>({
+    method: "DELETE",
+    path: `/holds/${encodeURIComponent(holdId)}`,
+    auth: true,
+  });
+}
 
-  const booking = mockUser.bookings.find((b) => b.id === bookingId);
-  if (booking) {
-    booking.status = "cancelled";
-  }
+// Payment API
+// Money is only taken when the booking is created with the intent
+export async function createPaymentIntent(
+  amount: number,
+  currency = "MAD"
+): Promise<PaymentIntent> {
+  return getTransport().request<PaymentIntent>({
+    method: "POST",
+    path: "/payments",
+    body: { amount, currency },
+    auth: true,
+  });
 }
 
-// Utility functions
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Radius of the Earth in km
-  const dLat = deg2rad(lat2 - lat1);
-  const dLon = deg2rad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(deg2rad(lat1)) *
-      Math.cos(deg2rad(lat2)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const d = R * c; // Distance in km
-  return d;
+export async function confirmPayment(
+  intentId: string,
+  card: CardDetails
+): Promise<PaymentIntent> {
+  return getTransport().request<PaymentIntent>({
+    method: "POST",
+    path: `/payments/${encodeURIComponent(intentId)}/confirm`,
+    body: { card },
+    auth: true,
+  });
 }
 
-function deg2rad(deg: number): number {
-  return deg * (Math.PI / 180);
+export async function authenticatePayment(
+  intentId: string,
+  code: string
+): Promise<PaymentIntent> {
+  return getTransport().request<PaymentIntent>({
+    method: "POST",
+    path: `/payments/${encodeURIComponent(intentId)}/authenticate`,
+    body: { code },
+    auth: true,
+  });
 }
 
-// Auth helpers (placeholder for now)
-function getAuthToken(): string {
-  // TODO: Implement actual auth token retrieval
-  return "mock-token";
+// Releases an intent that won't be used, e.g. when the user leaves checkout
+export async function cancelPayment(intentId: string): Promise<PaymentIntent> {
+  return getTransport().request<PaymentIntent>({
+    method: "POST",
+    path: `/payments/${encodeURIComponent(intentId)}/cancel`,
+    auth: true,
+  });
 }
@@ -0,0 +1,219 @@
+import type { CardDetails } from "./payments";
+
+export type CardBrand = "visa" | "mastercard" | "cmi";
+
+interface CardBrandRule {
+  label: string;
+  // Matches the start of the card number
+  pattern: RegExp;
+  lengths: number[];
+  cvcLength: number;
+}
+
+// Checked in order. CMI is the Moroccan domestic scheme; its range only
+// covers the cards issued for local payments.
+const CARD_BRANDS: Record<CardBrand, CardBrandRule> = {
+  visa: { label: "Visa", pattern: /^4/, lengths: [13, 16, 19], cvcLength: 3 },
+  mastercard: {
+    label: "Mastercard",
+    // 51-55 and 2221-2720
+    pattern: /^(5[1-5]|2(22[1-9]|2[3-9]\d|[3-6]\d\d|7[01]\d|720))/,
+    lengths: [16],
+    cvcLength: 3,
+  },
+  cmi: { label: "CMI", pattern: /^6058/, lengths: [16], cvcLength: 3 },
+};
+
+const MAX_CARD_LENGTH = 19;
+const DEFAULT_CVC_LENGTH = 3;
+
+export type CardField = keyof CardDetails;
+
+export type CardErrorCode =
+  | "required"
+  | "incomplete"
+  | "invalid"
+  | "unsupported"
+  | "expired";
+
+export type CardErrors = Partial<Record<CardField, CardErrorCode>>;
+
+const digitsOnly = (value: string) => value.replace(/\D/g, "");
+
+export function detectCardBrand(number: string): CardBrand | null {
+  const digits = digitsOnly(number);
+  if (!digits) return null;
+  const brand = (Object.keys(CARD_BRANDS) as CardBrand[]).find((candidate) =>
+    CARD_BRANDS[candidate].pattern.test(digits)
+  );
+  return brand || null;
+}
+
+export function getCardBrandLabel(brand: CardBrand): string {
+  return CARD_BRANDS[brand].label;
+}
+
+export function getCvcLength(brand: CardBrand | null): number {
+  return brand ? CARD_BRANDS[brand].cvcLength : DEFAULT_CVC_LENGTH;
+}
+
+// Checksum every card number carries in its last digit
+export function passesLuhnCheck(number: string): boolean {
+  const digits = digitsOnly(number);
+  if (!digits) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// "4242424242424242" -> "4242 4242 4242 4242", cut at the brand's longest
+// number
+export function formatCardNumber(value: string): string {
+  const brand = detectCardBrand(value);
+  const maxLength = brand
+    ? Math.max(...CARD_BRANDS[brand].lengths)
+    : MAX_CARD_LENGTH;
+  const digits = digitsOnly(value).slice(0, maxLength);
+  return digits.replace(/(\d{4})(?=\d)/g, "$1 ");
+}
+
+// "1225" -> "12/25"; a single month digit above 1 can only be that month
+export function formatExpiry(value: string): string {
+  let digits = digitsOnly(value).slice(0, 4);
+  if (/^[2-9]$/.test(digits)) digits = `0${digits}`;
+  return digits.length > 2
+    ? `${digits.slice(0, 2)}/${digits.slice(2)}`
+    : digits;
+}
+
+export function formatCvc(value: string, brand: CardBrand | null): string {
+  return digitsOnly(value).slice(0, getCvcLength(brand));
+}
+
+function validateNumber(number: string): CardErrorCode | undefined {
+  const digits = digitsOnly(number);
+  if (!digits) return "required";
+
+  const brand = detectCardBrand(digits);
+  if (!brand) return "unsupported";
+  const { lengths } = CARD_BRANDS[brand];
+  if (digits.length < Math.min(...lengths)) return "incomplete";
+  if (!lengths.includes(digits.length) || !passesLuhnCheck(digits)) {
+    return "invalid";
+  }
+  return undefined;
+}
+
+// Cards are valid until the end of their expiry month
+function validateExpiry(expiry: string, now: Date): CardErrorCode | undefined {
+  const digits = digitsOnly(expiry);
+  if (!digits) return "required";
+  if (digits.length < 4) return "incomplete";
+
+  const month = Number(digits.slice(0, 2));
+  const year = 2000 + Number(digits.slice(2, 4));
+  if (month < 1 || month > 12) return "invalid";
+  if (
+    year < now.getFullYear() ||
+    (year === now.getFullYear() && month < now.getMonth() + 1)
+  ) {
+    return "expired";
+  }
+  return undefined;
+}
+
+function validateCvc(cvc: string, number: string): CardErrorCode | undefined {
+  const digits = digitsOnly(cvc);
+  if (!digits) return "required";
+  return digits.length === getCvcLength(detectCardBrand(number))
+    ? undefined
+    : "incomplete";
+}
+
+// Errors per field; an empty object means the card can be submitted
+export function validateCard(
+  card: CardDetails,
+  now: Date = new Date()
+): CardErrors {
+  const errors: CardErrors = {
+    number: validateNumber(card.number),
+    expiry: validateExpiry(card.expiry, now),
+    cvc: validateCvc(card.cvc, card.number),
+  };
+  (Object.keys(errors) as CardField[]).forEach((field) => {
+    if (!errors[field]) delete errors[field];
+  });
+  return errors;
+}
+
+const cardErrorMessages: Record<
+  CardField,
+  Partial<Record<CardErrorCode, { en: string; fr: string }>>
+> = {
+  number: {
+    required: {
+      en: "Enter your card number.",
+      fr: "Saisissez le numéro de votre carte.",
+    },
+    incomplete: {
+      en: "Your card number is incomplete.",
+      fr: "Le numéro de carte est incomplet.",
+    },
+    invalid: {
+      en: "Your card number is invalid.",
+      fr: "Le numéro de carte est invalide.",
+    },
+    unsupported: {
+      en: "We accept Visa, Mastercard and CMI cards.",
+      fr: "Nous acceptons les cartes Visa, Mastercard et CMI.",
+    },
+  },
+  expiry: {
+    required: {
+      en: "Enter the expiry date.",
+      fr: "Saisissez la date d'expiration.",
+    },
+    incomplete: {
+      en: "Enter the expiry date as MM/YY.",
+      fr: "Saisissez la date d'expiration au format MM/AA.",
+    },
+    invalid: {
+      en: "The expiry month is invalid.",
+      fr: "Le mois d'expiration est invalide.",
+    },
+    expired: {
+      en: "Your card has expired.",
+      fr: "Votre carte a expiré.",
+    },
+  },
+  cvc: {
+    required: {
+      en: "Enter the security code.",
+      fr: "Saisissez le code de sécurité.",
+    },
+    incomplete: {
+      en: "Your security code is incomplete.",
+      fr: "Le code de sécurité est incomplet.",
+    },
+  },
+};
+
+export function getCardErrorMessage(
+  field: CardField,
+  code: CardErrorCode,
+  lang: "en" | "fr" = "en"
+): string {
+  const message = cardErrorMessages[field][code];
+  if (message) return message[lang];
+  return lang === "en"
+    ? "Check your card details."
+    : "Vérifiez les informations de votre carte.";
+}
@@ -0,0 +1,132 @@
+// Typed errors thrown by the API client (and by the local/mock backends)
+
+export type ApiErrorKind =
+  | "network"
+  | "not_found"
+  | "unauthorized"
+  | "validation"
+  | "conflict"
+  | "server";
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status: number;
+
+  constructor(kind: ApiErrorKind, status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = "Network request failed") {
+    super("network", 0, message);
+    this.name = "NetworkError";
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = "Resource not found") {
+    super("not_found", 404, message);
+    this.name = "NotFoundError";
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = "Authentication required") {
+    super("unauthorized", 401, message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ValidationError extends ApiError {
+  fields: Record<string, string>;
+
+  constructor(
+    message = "Invalid request",
+    fields: Record<string, string> = {}
+  ) {
+    super("validation", 400, message);
+    this.name = "ValidationError";
+    this.fields = fields;
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message = "Request conflicts with the current state") {
+    super("conflict", 409, message);
+    this.name = "ConflictError";
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(status = 500, message = "Internal server error") {
+    super("server", status, message);
+    this.name = "ServerError";
+  }
+}
+
+// Map an HTTP error response to the matching typed error
+export function errorFromResponse(
+  status: number,
+  body: { message?: string; fields?: Record<string, string> } = {}
+): ApiError {
+  const message = body.message;
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, body.fields);
+    case 401:
+    case 403:
+      return new UnauthorizedError(message);
+    case 404:
+      return new NotFoundError(message);
+    case 409:
+      return new ConflictError(message);
+    default:
+      return new ServerError(status, message);
+  }
+}
+
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  return new ServerError(
+    500,
+    error instanceof Error ? error.message : String(error)
+  );
+}
+
+const errorMessages: Record<ApiErrorKind, { en: string; fr: string }> = {
+  network: {
+    en: "We couldn't reach the server. Check your connection and try again.",
+    fr: "Impossible de joindre le serveur. Vérifiez votre connexion et réessayez.",
+  },
+  not_found: {
+    en: "We couldn't find what you were looking for.",
+    fr: "Nous n'avons pas trouvé ce que vous cherchiez.",
+  },
+  unauthorized: {
+    en: "Please sign in to continue.",
+    fr: "Veuillez vous connecter pour continuer.",
+  },
+  validation: {
+    en: "Some of the information provided is invalid.",
+    fr: "Certaines informations fournies sont invalides.",
+  },
+  conflict: {
+    en: "This is no longer available. Please refresh and try again.",
+    fr: "Ceci n'est plus disponible. Veuillez actualiser et réessayer.",
+  },
+  server: {
+    en: "Something went wrong on our side. Please try again.",
+    fr: "Une erreur s'est produite de notre côté. Veuillez réessayer.",
+  },
+};
+
+export function getErrorMessage(error: unknown, language: "en" | "fr"): string {
+  return errorMessages[toApiError(error).kind][language];
+}
@@ -0,0 +1,146 @@
+// Geographic helpers shared by the backends and the UI
+
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const R = 6371; // Radius of the Earth in km
+  const dLat = deg2rad(lat2 - lat1);
+  const dLon = deg2rad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(deg2rad(lat1)) *
+      Math.cos(deg2rad(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  const d = R * c; // Distance in km
+  return d;
+}
+
+function deg2rad(deg: number): number {
+  return deg * (Math.PI / 180);
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Map area to search in: a bounding box (the visible map or a drawn
+// rectangle) or a drawn polygon
+export type GeoArea =
+  | { kind: "bbox"; south: number; west: number; north: number; east: number }
+  | { kind: "polygon"; points: LatLng[] };
+
+// Areas are small enough (a city) to treat coordinates as planar
+export function isInArea(point: LatLng, area: GeoArea): boolean {
+  if (area.kind === "bbox") {
+    return (
+      point.lat >= area.south &&
+      point.lat <= area.north &&
+      point.lng >= area.west &&
+      point.lng <= area.east
+    );
+  }
+
+  // Ray casting: count polygon edges crossed by a ray going east
+  let inside = false;
+  const { points } = area;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng <
+        ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Keeps area coordinates (and so URLs) short; 5 decimals is about a metre
+export function roundCoordinate(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
+
+// Radius choices for "near me" searches, in km
+export const NEAR_ME_RADII_KM = [1, 2, 5, 10, 25];
+export const DEFAULT_NEAR_ME_RADIUS_KM = 5;
+
+export type GeolocationErrorReason = "denied" | "unavailable" | "timeout";
+
+export class GeolocationError extends Error {
+  reason: GeolocationErrorReason;
+
+  constructor(reason: GeolocationErrorReason) {
+    super(`Geolocation ${reason}`);
+    this.name = "GeolocationError";
+    this.reason = reason;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// Current position of the device, via the browser's geolocation API
+export function getCurrentPosition(): Promise<{ lat: number; lng: number }> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      reject(new GeolocationError("unavailable"));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        }),
+      (error) =>
+        reject(
+          new GeolocationError(
+            error.code === error.PERMISSION_DENIED
+              ? "denied"
+              : error.code === error.TIMEOUT
+              ? "timeout"
+              : "unavailable"
+          )
+        ),
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 60000 }
+    );
+  });
+}
+
+export function getGeolocationErrorMessage(
+  error: unknown,
+  lang: "en" | "fr" = "en"
+): string {
+  const reason = error instanceof GeolocationError ? error.reason : undefined;
+
+  switch (reason) {
+    case "denied":
+      return lang === "en"
+        ? "Location access was denied. Allow it in your browser settings to search near you."
+        : "L'accès à la position a été refusé. Autorisez-le dans votre navigateur pour chercher autour de vous.";
+    case "timeout":
+      return lang === "en"
+        ? "Finding your location took too long. Please try again."
+        : "La localisation a pris trop de temps. Veuillez réessayer.";
+    default:
+      return lang === "en"
+        ? "Your location is not available on this device."
+        : "Votre position n'est pas disponible sur cet appareil.";
+  }
+}
+
+// "850 m", "3.2 km" (or "3,2 km" in French)
+export function formatDistance(km: number, lang: "en" | "fr" = "en"): string {
+  if (km < 1) {
+    return `${Math.max(10, Math.round((km * 1000) / 10) * 10)} m`;
+  }
+  const rounded = km < 10 ? km.toFixed(1) : Math.round(km).toString();
+  return `${lang === "fr" ? rounded.replace(".", ",") : rounded} km`;
+}
@@ -0,0 +1,6 @@
+// Ids for records a client refers to later (bookings, holds, payments): unique
+// even when created in the same millisecond, and impossible to guess from one
+// another. Web Crypto is available in browsers and in Node 19+.
+export function createId(prefix: string): string {
+  return `${prefix}-${crypto.randomUUID()}`;
+}
@@ -0,0 +1,334 @@
+import type {
+  ListingCategory,
+  ListingFilters,
+  ListingSort,
+  ListingSortKey,
+} from "./api";
+import type { GeoArea, LatLng } from "./geo";
+import type { QueryParams } from "./transport";
+
+// Query-string formats for listings: the wire format of GET /listings (shared
+// by the client and the mock/local backends) and the Explore page URL. Both
+// encode filters the same way so Explore links map 1:1 onto API calls.
+
+export interface ListingQuery {
+  filters: ListingFilters;
+  page: number;
+  limit: number;
+  sort?: ListingSort;
+  cursor?: string;
+}
+
+export type ExploreViewMode = "list" | "map" | "split";
+
+export interface ExploreState {
+  filters: ListingFilters;
+  sort: ListingSortKey;
+  page: number;
+  view: ExploreViewMode;
+}
+
+export const LISTING_SORT_KEYS: ListingSortKey[] = [
+  "recommended",
+  "price_asc",
+  "price_desc",
+  "rating",
+  "reviews",
+  "newest",
+  "distance",
+];
+
+// Most listings one request can ask for, however many pages it restores
+export const MAX_LISTING_LIMIT = 96;
+
+// Options offered for the rating filter, and counted by the facets endpoint
+export const RATING_THRESHOLDS = [4.5, 4.0, 3.5, 3.0];
+
+export const LISTING_CATEGORIES: ListingCategory[] = [
+  "restaurant",
+  "event",
+  "cultural",
+];
+
+export function isListingCategory(value: unknown): value is ListingCategory {
+  return LISTING_CATEGORIES.includes(value as ListingCategory);
+}
+
+export function isListingSortKey(value: unknown): value is ListingSortKey {
+  return LISTING_SORT_KEYS.includes(value as ListingSortKey);
+}
+
+export function filtersToQuery(filters: ListingFilters = {}): QueryParams {
+  const query: QueryParams = {};
+
+  if (filters.query?.trim()) query.q = filters.query.trim();
+  if (filters.category?.length) query.category = filters.category;
+  if (filters.minPrice !== undefined)
+    query.minPrice = filters.minPrice.toString();
+  if (filters.maxPrice !== undefined)
+    query.maxPrice = filters.maxPrice.toString();
+  if (filters.minRating !== undefined)
+    query.minRating = filters.minRating.toString();
+  if (filters.date) query.date = filters.date;
+  if (filters.date && filters.dateTo) query.dateTo = filters.dateTo;
+  if (filters.timeOfDay) query.timeOfDay = filters.timeOfDay;
+  if (filters.amenities?.length) {
+    query.amenities = filters.amenities;
+    if (filters.amenitiesMatch === "any") query.amenitiesMatch = "any";
+  }
+  if (filters.verifiedHost) query.verifiedHost = "true";
+  if (filters.location) {
+    query.lat = filters.location.lat.toString();
+    query.lng = filters.location.lng.toString();
+    query.radius = filters.location.radius.toString();
+  }
+  if (filters.area?.kind === "bbox") {
+    const { south, west, north, east } = filters.area;
+    query.bbox = [south, west, north, east].join(",");
+  } else if (filters.area?.kind === "polygon") {
+    query.polygon = filters.area.points
+      .map((point) => `${point.lat},${point.lng}`)
+      .join(";");
+  }
+
+  return query;
+}
+
+// Invalid or out-of-range values are dropped rather than rejected, so a
+// hand-edited or stale link still opens with whatever part of it is valid.
+export function parseFilters(query: QueryParams): ListingFilters {
+  const filters: ListingFilters = {};
+
+  const text = first(query.q)?.trim();
+  if (text) filters.query = text;
+
+  const categories = all(query.category).filter(isListingCategory);
+  if (categories.length > 0) {
+    filters.category = Array.from(new Set(categories));
+  }
+
+  const minPrice = toNumber(query.minPrice);
+  if (minPrice !== undefined && minPrice >= 0) filters.minPrice = minPrice;
+  const maxPrice = toNumber(query.maxPrice);
+  if (maxPrice !== undefined && maxPrice >= 0) filters.maxPrice = maxPrice;
+  // Crossed bounds (e.g. typed before the price inputs reorder them) are
+  // swapped rather than losing one of them
+  if (
+    filters.minPrice !== undefined &&
+    filters.maxPrice !== undefined &&
+    filters.minPrice > filters.maxPrice
+  ) {
+    [filters.minPrice, filters.maxPrice] = [filters.maxPrice, filters.minPrice];
+  }
+  const minRating = toNumber(query.minRating);
+  if (minRating !== undefined && minRating >= 0 && minRating <= 5)
+    filters.minRating = minRating;
+
+  const date = toDate(query.date);
+  if (date) {
+    filters.date = date;
+    const dateTo = toDate(query.dateTo);
+    if (dateTo && dateTo >= date) filters.dateTo = dateTo;
+  }
+
+  const timeOfDay = first(query.timeOfDay);
+  if (
+    timeOfDay === "morning" ||
+    timeOfDay === "afternoon" ||
+    timeOfDay === "evening"
+  ) {
+    filters.timeOfDay = timeOfDay;
+  }
+
+  const amenities = Array.from(
+    new Set(all(query.amenities).map((amenity) => amenity.trim()))
+  ).filter(Boolean);
+  if (amenities.length > 0) {
+    filters.amenities = amenities;
+    if (first(query.amenitiesMatch) === "any") filters.amenitiesMatch = "any";
+  }
+
+  if (first(query.verifiedHost) === "true") filters.verifiedHost = true;
+
+  const lat = toNumber(query.lat);
+  const lng = toNumber(query.lng);
+  const radius = toNumber(query.radius);
+  if (
+    lat !== undefined &&
+    lng !== undefined &&
+    radius !== undefined &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lng) <= 180 &&
+    radius > 0
+  ) {
+    filters.location = { lat, lng, radius };
+  }
+
+  const area = toArea(query);
+  if (area) filters.area = area;
+
+  return filters;
+}
+
+export function toListingQuery(
+  filters: ListingFilters = {},
+  page = 1,
+  limit = 10,
+  sort?: ListingSort,
+  cursor?: string
+): QueryParams {
+  const query: QueryParams = {
+    page: page.toString(),
+    limit: limit.toString(),
+    ...filtersToQuery(filters),
+  };
+
+  if (cursor) query.cursor = cursor;
+
+  if (sort && sort.key !== "recommended") {
+    query.sort = sort.key;
+    if (sort.origin) {
+      query.originLat = sort.origin.lat.toString();
+      query.originLng = sort.origin.lng.toString();
+    }
+  }
+
+  return query;
+}
+
+export function parseListingQuery(query: QueryParams): ListingQuery {
+  let sort: ListingSort | undefined;
+  const sortKey = first(query.sort);
+  if (isListingSortKey(sortKey)) {
+    sort = { key: sortKey };
+    const originLat = toNumber(query.originLat);
+    const originLng = toNumber(query.originLng);
+    if (originLat !== undefined && originLng !== undefined) {
+      sort.origin = { lat: originLat, lng: originLng };
+    }
+  }
+
+  return {
+    filters: parseFilters(query),
+    sort,
+    page: toPositiveInt(query.page, 1),
+    limit: Math.min(toPositiveInt(query.limit, 10), MAX_LISTING_LIMIT),
+    cursor: first(query.cursor) || undefined,
+  };
+}
+
+// GET /listings/suggestions: the text typed so far and a result cap
+export function parseSuggestionQuery(query: QueryParams): {
+  q: string;
+  limit: number;
+} {
+  return {
+    q: first(query.q)?.trim() || "",
+    limit: Math.min(toPositiveInt(query.limit, 8), 20),
+  };
+}
+
+// Explore URL: filters plus sort, loaded page count and view mode. The text
+// query travels as `search` rather than `q`, which is what the navbar links
+// to. Defaults are left out to keep shared links short.
+export function toExploreQuery(state: ExploreState): QueryParams {
+  const { query: text, ...filters } = state.filters;
+  const query: QueryParams = filtersToQuery(filters);
+
+  if (text?.trim()) query.search = text.trim();
+  if (state.sort !== "recommended") query.sort = state.sort;
+  if (state.page > 1) query.page = state.page.toString();
+  if (state.view !== "list") query.view = state.view;
+
+  return query;
+}
+
+export function parseExploreQuery(query: QueryParams): ExploreState {
+  const filters = parseFilters(query);
+  const text = first(query.search)?.trim();
+  if (text) filters.query = text;
+
+  const sort = first(query.sort);
+  const view = first(query.view);
+
+  return {
+    filters,
+    sort: isListingSortKey(sort) ? sort : "recommended",
+    page: toPositiveInt(query.page, 1),
+    view: view === "map" || view === "split" ? view : "list",
+  };
+}
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function all(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toNumber(value: string | string[] | undefined): number | undefined {
+  const raw = first(value);
+  if (raw === undefined || raw.trim() === "") return undefined;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+const MAX_POLYGON_POINTS = 50;
+
+// bbox=south,west,north,east or polygon=lat,lng;lat,lng;...
+function toArea(query: QueryParams): GeoArea | undefined {
+  const bbox = first(query.bbox)?.split(",").map(Number);
+  if (bbox && bbox.length === 4 && bbox.every(Number.isFinite)) {
+    const [south, west, north, east] = bbox;
+    if (
+      isValidPoint({ lat: south, lng: west }) &&
+      isValidPoint({ lat: north, lng: east }) &&
+      south <= north &&
+      west <= east
+    ) {
+      return { kind: "bbox", south, west, north, east };
+    }
+  }
+
+  const points = first(query.polygon)
+    ?.split(";")
+    .map((pair) => {
+      const [lat, lng] = pair.split(",").map(Number);
+      return { lat, lng };
+    });
+  if (
+    points &&
+    points.length >= 3 &&
+    points.length <= MAX_POLYGON_POINTS &&
+    points.every(isValidPoint)
+  ) {
+    return { kind: "polygon", points };
+  }
+
+  return undefined;
+}
+
+function isValidPoint(point: LatLng): boolean {
+  return (
+    Number.isFinite(point.lat) &&
+    Number.isFinite(point.lng) &&
+    Math.abs(point.lat) <= 90 &&
+    Math.abs(point.lng) <= 180
+  );
+}
+
+function toPositiveInt(
+  value: string | string[] | undefined,
+  fallback: number
+): number {
+  return Math.max(1, Math.floor(toNumber(value) ?? fallback));
+}
+
+function toDate(value: string | string[] | undefined): string | undefined {
+  const raw = first(value);
+  return raw && /^\d{4}-\d{2}-\d{2}$/.test(raw) && !isNaN(Date.parse(raw))
+    ? raw
+    : undefined;
+}
@@ -0,0 +1,17 @@
+import type { Map as LeafletMap } from "leaflet";
+
+// Marks the map while the app itself pans or zooms it (showing a selected
+// listing, fitting results, zooming into a cluster) so that listeners such as
+// "Search as I move the map" only react to moves the user makes.
+const appMoves = new WeakSet<LeafletMap>();
+
+export function moveMap(map: LeafletMap, move: () => void): void {
+  appMoves.add(map);
+  // Cleared after the other moveend/zoomend listeners have had their turn
+  map.once("moveend", () => setTimeout(() => appMoves.delete(map), 0));
+  move();
+}
+
+export function isAppMove(map: LeafletMap): boolean {
+  return appMoves.has(map);
+}
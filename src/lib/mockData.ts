@@ -1,3 +1,5 @@
+import type { ListingPricing, ParticipantCounts } from "./pricing";
+
 export interface Listing {
   id: string;
   title: string;
@@ -5,7 +7,9 @@ export interface Listing {
   description: string;
   descriptionFr: string;
   category: "restaurant" | "event" | "cultural";
-  price: number;
+  price: number; // per adult
+  // Participant rates and date/slot prices; defaults apply without it
+  pricing?: ListingPricing;
   rating: number;
   reviewCount: number;
   images: string[];
@@ -14,10 +18,13 @@ export interface Listing {
     lng: number;
     address: string;
     addressFr: string;
+    neighbourhood: string;
+    neighbourhoodFr: string;
   };
   availability: {
     date: string;
-    slots: string[];
+    // Places per slot; bookings count against it
+    slots: { time: string; capacity: number }[];
   }[];
   amenities: string[];
   host: {
@@ -47,11 +54,25 @@ export interface Booking {
   date: string;
   time: string;
   participants: number;
+  // How the participants split by type; all adults when missing
+  guests?: ParticipantCounts;
   status: "confirmed" | "pending" | "cancelled";
   totalPrice: number;
+  // Captured payment of a confirmed booking
+  paymentIntentId?: string;
   createdAt: string;
 }
 
+// Places set aside in a slot while the user is paying
+export interface SlotHold {
+  id: string;
+  listingId: string;
+  date: string;
+  time: string;
+  participants: number;
+  expiresAt: string;
+}
+
 export const mockListings: Listing[] = [
   {
     id: "1",
@@ -63,6 +84,9 @@ export const mockListings: Listing[] = [
       "Découvrez la merveille architecturale de la Mosquée Hassan II, l'une des plus grandes mosquées au monde.",
     category: "cultural",
     price: 150,
+    pricing: {
+      rates: { child: 0.5, student: 0.5 },
+    },
     rating: 4.8,
     reviewCount: 342,
     images: [
@@ -74,10 +98,27 @@ export const mockListings: Listing[] = [
       lng: -7.6326,
       address: "Boulevard Sidi Mohammed Ben Abdallah, Casablanca",
       addressFr: "Boulevard Sidi Mohammed Ben Abdallah, Casablanca",
+      neighbourhood: "Bourgogne",
+      neighbourhoodFr: "Bourgogne",
     },
     availability: [
-      { date: "2024-01-15", slots: ["09:00", "11:00", "14:00", "16:00"] },
-      { date: "2024-01-16", slots: ["09:00", "11:00", "14:00"] },
+      {
+        date: "2024-01-15",
+        slots: [
+          { time: "09:00", capacity: 25 },
+          { time: "11:00", capacity: 25 },
+          { time: "14:00", capacity: 25 },
+          { time: "16:00", capacity: 25 },
+        ],
+      },
+      {
+        date: "2024-01-16",
+        slots: [
+          { time: "09:00", capacity: 25 },
+          { time: "11:00", capacity: 25 },
+          { time: "14:00", capacity: 25 },
+        ],
+      },
     ],
     amenities: ["Guided Tour", "Audio Guide", "Photography"],
     host: {
@@ -98,6 +139,24 @@ export const mockListings: Listing[] = [
       "Vivez l'atmosphère légendaire de Casablanca au célèbre Café Rick's.",
     category: "restaurant",
     price: 300,
+    pricing: {
+      // Same menu for students
+      rates: { child: 0.6, student: 1 },
+      overrides: [
+        {
+          weekdays: [5, 6],
+          price: 350,
+          label: "Weekend price",
+          labelFr: "Tarif week-end",
+        },
+        {
+          times: ["21:00", "22:00"],
+          price: 330,
+          label: "Peak hours",
+          labelFr: "Heures de pointe",
+        },
+      ],
+    },
     rating: 4.6,
     reviewCount: 189,
     images: [
@@ -109,10 +168,27 @@ export const mockListings: Listing[] = [
       lng: -7.6298,
       address: "248 Boulevard Sour Jdid, Casablanca",
       addressFr: "248 Boulevard Sour Jdid, Casablanca",
+      neighbourhood: "Old Medina",
+      neighbourhoodFr: "Ancienne Médina",
     },
     availability: [
-      { date: "2024-01-15", slots: ["19:00", "20:00", "21:00"] },
-      { date: "2024-01-16", slots: ["19:00", "20:00", "21:00", "22:00"] },
+      {
+        date: "2024-01-15",
+        slots: [
+          { time: "19:00", capacity: 12 },
+          { time: "20:00", capacity: 12 },
+          { time: "21:00", capacity: 12 },
+        ],
+      },
+      {
+        date: "2024-01-16",
+        slots: [
+          { time: "19:00", capacity: 12 },
+          { time: "20:00", capacity: 12 },
+          { time: "21:00", capacity: 12 },
+          { time: "22:00", capacity: 12 },
+        ],
+      },
     ],
     amenities: ["Live Music", "Bar", "Terrace", "Reservations"],
     host: {
@@ -144,10 +220,24 @@ export const mockListings: Listing[] = [
       lng: -7.6187,
       address: "Ancient Medina, Casablanca",
       addressFr: "Ancienne Médina, Casablanca",
+      neighbourhood: "Old Medina",
+      neighbourhoodFr: "Ancienne Médina",
     },
     availability: [
-      { date: "2024-01-15", slots: ["10:00", "15:00"] },
-      { date: "2024-01-16", slots: ["10:00", "15:00"] },
+      {
+        date: "2024-01-15",
+        slots: [
+          { time: "10:00", capacity: 15 },
+          { time: "15:00", capacity: 15 },
+        ],
+      },
+      {
+        date: "2024-01-16",
+        slots: [
+          { time: "10:00", capacity: 15 },
+          { time: "15:00", capacity: 15 },
+        ],
+      },
     ],
     amenities: ["Local Guide", "Tea Break", "Shopping Stops"],
     host: {
@@ -179,13 +269,29 @@ export const mockListings: Listing[] = [
       lng: -7.6394,
       address: "Boulevard de la Corniche, Casablanca",
       addressFr: "Boulevard de la Corniche, Casablanca",
+      neighbourhood: "Ain Diab",
+      neighbourhoodFr: "Aïn Diab",
     },
     availability: [
       {
         date: "2024-01-15",
-        slots: ["12:00", "13:00", "14:00", "19:00", "20:00"],
+        slots: [
+          { time: "12:00", capacity: 30 },
+          { time: "13:00", capacity: 30 },
+          { time: "14:00", capacity: 30 },
+          { time: "19:00", capacity: 30 },
+          { time: "20:00", capacity: 30 },
+        ],
+      },
+      {
+        date: "2024-01-16",
+        slots: [
+          { time: "12:00", capacity: 30 },
+          { time: "13:00", capacity: 30 },
+          { time: "19:00", capacity: 30 },
+          { time: "20:00", capacity: 30 },
+        ],
       },
-      { date: "2024-01-16", slots: ["12:00", "13:00", "19:00", "20:00"] },
     ],
     amenities: ["Ocean View", "Pool Access", "Beach Chairs", "Parking"],
     host: {
@@ -217,10 +323,24 @@ export const mockListings: Listing[] = [
       lng: -7.6125,
       address: "Boulevard Mohammed V, Casablanca",
       addressFr: "Boulevard Mohammed V, Casablanca",
+      neighbourhood: "City Centre",
+      neighbourhoodFr: "Centre-Ville",
     },
     availability: [
-      { date: "2024-01-15", slots: ["09:30", "14:30"] },
-      { date: "2024-01-16", slots: ["09:30", "14:30"] },
+      {
+        date: "2024-01-15",
+        slots: [
+          { time: "09:30", capacity: 12 },
+          { time: "14:30", capacity: 12 },
+        ],
+      },
+      {
+        date: "2024-01-16",
+        slots: [
+          { time: "09:30", capacity: 12 },
+          { time: "14:30", capacity: 12 },
+        ],
+      },
     ],
     amenities: ["Architecture Guide", "Photography", "Coffee Break"],
     host: {
@@ -241,6 +361,16 @@ export const mockListings: Listing[] = [
       "Apprenez à préparer des plats marocains authentiques avec un chef local.",
     category: "event",
     price: 220,
+    pricing: {
+      overrides: [
+        {
+          dates: ["2024-01-16"],
+          price: 260,
+          label: "Special menu",
+          labelFr: "Menu spécial",
+        },
+      ],
+    },
     rating: 4.8,
     reviewCount: 234,
     images: [
@@ -252,10 +382,24 @@ export const mockListings: Listing[] = [
       lng: -7.5898,
       address: "Rue Ibn Batouta, Casablanca",
       addressFr: "Rue Ibn Batouta, Casablanca",
+      neighbourhood: "Gauthier",
+      neighbourhoodFr: "Gauthier",
     },
     availability: [
-      { date: "2024-01-15", slots: ["10:00", "16:00"] },
-      { date: "2024-01-16", slots: ["10:00", "16:00"] },
+      {
+        date: "2024-01-15",
+        slots: [
+          { time: "10:00", capacity: 8 },
+          { time: "16:00", capacity: 8 },
+        ],
+      },
+      {
+        date: "2024-01-16",
+        slots: [
+          { time: "10:00", capacity: 8 },
+          { time: "16:00", capacity: 8 },
+        ],
+      },
     ],
     amenities: [
       "Ingredients Included",
@@ -0,0 +1,223 @@
+import { mockListings, mockUser } from "./mockData";
+import {
+  parseFilters,
+  parseListingQuery,
+  parseSuggestionQuery,
+} from "./listingQuery";
+import {
+  parseBookingBody,
+  parseCardBody,
+  parseChallengeBody,
+  parseHoldBody,
+  parsePaymentBody,
+  parsePreferencesBody,
+  parseWishlistBody,
+} from "./requestBodies";
+import {
+  DataStore,
+  queryListings,
+  computeFacets,
+  suggestSearches,
+  findListing,
+  getListingAvailability,
+  updatePreferences,
+  addWishlistItem,
+  removeWishlistItem,
+  listWishlist,
+  insertBooking,
+  insertPaidBooking,
+  cancelBookingRecord,
+  createHold,
+  releaseHold,
+} from "./services";
+import { NotFoundError } from "./errors";
+import { getPaymentProvider } from "./payments";
+import { ApiRequest, HttpMethod, Transport } from "./transport";
+
+// Simulate API delay for realistic UX
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface MockRoute {
+  method: HttpMethod;
+  pattern: RegExp;
+  latency: number;
+  handle: (store: DataStore, req: ApiRequest, params: string[]) => unknown;
+}
+
+// In-memory implementation of the backend contract
+const routes: MockRoute[] = [
+  {
+    method: "GET",
+    pattern: /^\/listings$/,
+    latency: 800,
+    handle: (store, req) => {
+      const { filters, page, limit, sort, cursor } = parseListingQuery(
+        req.query || {}
+      );
+      return queryListings(store, filters, page, limit, sort, cursor);
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/listings\/facets$/,
+    latency: 300,
+    handle: (store, req) => computeFacets(store, parseFilters(req.query || {})),
+  },
+  {
+    method: "GET",
+    pattern: /^\/listings\/suggestions$/,
+    latency: 150,
+    handle: (store, req) => {
+      const { q, limit } = parseSuggestionQuery(req.query || {});
+      return suggestSearches(store, q, limit);
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/listings\/([^/]+)$/,
+    latency: 500,
+    handle: (store, _req, [id]) => {
+      const listing = findListing(store, id);
+      if (!listing) {
+        throw new NotFoundError(`Listing ${id} not found`);
+      }
+      return listing;
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/listings\/([^/]+)\/availability$/,
+    latency: 300,
+    handle: (store, _req, [id]) => getListingAvailability(store, id),
+  },
+  {
+    method: "GET",
+    pattern: /^\/user$/,
+    latency: 400,
+    handle: (store) => store.user,
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/user\/preferences$/,
+    latency: 500,
+    handle: (store, req) =>
+      updatePreferences(store, parsePreferencesBody(req.body)),
+  },
+  {
+    method: "GET",
+    pattern: /^\/user\/wishlist$/,
+    latency: 500,
+    handle: (store) => listWishlist(store),
+  },
+  {
+    method: "POST",
+    pattern: /^\/user\/wishlist$/,
+    latency: 300,
+    handle: (store, req) =>
+      addWishlistItem(store, parseWishlistBody(req.body).listingId),
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/user\/wishlist\/([^/]+)$/,
+    latency: 300,
+    handle: (store, _req, [listingId]) => removeWishlistItem(store, listingId),
+  },
+  {
+    method: "GET",
+    pattern: /^\/user\/bookings$/,
+    latency: 400,
+    handle: (store) => store.user.bookings,
+  },
+  {
+    method: "POST",
+    pattern: /^\/bookings$/,
+    latency: 1000,
+    handle: (store, req) => {
+      const { booking, holdId, paymentIntentId } = parseBookingBody(req.body);
+      return paymentIntentId
+        ? insertPaidBooking(store, booking, paymentIntentId, holdId)
+        : insertBooking(store, { ...booking, status: "pending" }, holdId);
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/bookings\/([^/]+)\/cancel$/,
+    latency: 500,
+    handle: (store, _req, [bookingId]) => {
+      if (!cancelBookingRecord(store, bookingId)) {
+        throw new NotFoundError(`Booking ${bookingId} not found`);
+      }
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/holds$/,
+    latency: 500,
+    handle: (store, req) => createHold(store, parseHoldBody(req.body)),
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/holds\/([^/]+)$/,
+    latency: 200,
+    handle: (store, _req, [holdId]) => releaseHold(store, holdId),
+  },
+  {
+    method: "POST",
+    pattern: /^\/payments$/,
+    latency: 400,
+    handle: (_store, req) => {
+      const { amount, currency } = parsePaymentBody(req.body);
+      return getPaymentProvider().createIntent(amount, currency);
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/payments\/([^/]+)\/confirm$/,
+    latency: 1200,
+    handle: (_store, req, [intentId]) =>
+      getPaymentProvider().confirmIntent(
+        intentId,
+        parseCardBody(req.body).card
+      ),
+  },
+  {
+    method: "POST",
+    pattern: /^\/payments\/([^/]+)\/authenticate$/,
+    latency: 800,
+    handle: (_store, req, [intentId]) =>
+      getPaymentProvider().authenticateIntent(
+        intentId,
+        parseChallengeBody(req.body).code
+      ),
+  },
+  {
+    method: "POST",
+    pattern: /^\/payments\/([^/]+)\/cancel$/,
+    latency: 300,
+    handle: (_store, _req, [intentId]) =>
+      getPaymentProvider().cancelIntent(intentId),
+  },
+];
+
+export function createMockTransport(
+  store: DataStore = { listings: mockListings, user: mockUser, holds: [] }
+): Transport {
+  return {
+    async request<T>(req: ApiRequest): Promise<T> {
+      for (const route of routes) {
+        if (route.method !== req.method) continue;
+        const match = route.pattern.exec(req.path);
+        if (!match) continue;
+
+        await delay(route.latency); // Simulate network delay
+        return route.handle(
+          store,
+          req,
+          match.slice(1).map(decodeURIComponent)
+        ) as T;
+      }
+
+      throw new NotFoundError(`No mock route for ${req.method} ${req.path}`);
+    },
+  };
+}
@@ -0,0 +1,199 @@
+import { ConflictError, NotFoundError } from "./errors";
+import { createId } from "./ids";
+
+export type PaymentIntentStatus =
+  | "requires_payment_method" // Created, or the last attempt failed
+  | "requires_action" // The bank wants the cardholder to authenticate
+  | "requires_capture" // Authorised, waiting for the money to be taken
+  | "succeeded"
+  | "canceled"; // Abandoned; any authorisation on the card was released
+
+export type PaymentErrorCode =
+  | "card_declined"
+  | "insufficient_funds"
+  | "expired_card"
+  | "authentication_failed"
+  | "processing_error";
+
+export interface PaymentIntent {
+  id: string;
+  amount: number; // in `currency`, e.g. MAD
+  currency: string;
+  status: PaymentIntentStatus;
+  // Why the last confirmation failed
+  lastError?: PaymentErrorCode;
+}
+
+export interface CardDetails {
+  number: string;
+  expiry: string; // MM/YY
+  cvc: string;
+}
+
+export interface PaymentProvider {
+  createIntent(amount: number, currency: string): Promise<PaymentIntent>;
+  getIntent(intentId: string): Promise<PaymentIntent>;
+  // Authorises the amount on the card; the bank may ask for a challenge first
+  confirmIntent(intentId: string, card: CardDetails): Promise<PaymentIntent>;
+  // Answer to the challenge of an intent that requires_action
+  authenticateIntent(intentId: string, code: string): Promise<PaymentIntent>;
+  captureIntent(intentId: string): Promise<PaymentIntent>;
+  // Abandons an intent that hasn't been captured, voiding its authorisation
+  cancelIntent(intentId: string): Promise<PaymentIntent>;
+}
+
+// Card numbers the sandbox reacts to; any other card is authorised
+export const SANDBOX_CARDS = {
+  success: "4242424242424242",
+  challenge: "4000002760003184",
+  declined: "4000000000000002",
+  insufficientFunds: "4000000000009995",
+  expired: "4000000000000069",
+  processingError: "4000000000000119",
+};
+
+// Code that passes the sandbox challenge
+export const SANDBOX_CHALLENGE_CODE = "123456";
+
+const SANDBOX_DECLINES: Record<string, PaymentErrorCode> = {
+  [SANDBOX_CARDS.declined]: "card_declined",
+  [SANDBOX_CARDS.insufficientFunds]: "insufficient_funds",
+  [SANDBOX_CARDS.expired]: "expired_card",
+  [SANDBOX_CARDS.processingError]: "processing_error",
+};
+
+// Local stand-in for a card gateway. Outcomes depend only on the card number
+// (and challenge code), so every flow can be tried without a real account.
+export function createSandboxPaymentProvider(): PaymentProvider {
+  const intents = new Map<string, PaymentIntent>();
+
+  const findIntent = (intentId: string) => {
+    const intent = intents.get(intentId);
+    if (!intent) {
+      throw new NotFoundError(`Payment ${intentId} not found`);
+    }
+    return intent;
+  };
+
+  const expectStatus = (intent: PaymentIntent, status: PaymentIntentStatus) => {
+    if (intent.status !== status) {
+      throw new ConflictError(
+        `Payment ${intent.id} is ${intent.status}, expected ${status}`
+      );
+    }
+  };
+
+  // Callers get copies so they can't change the gateway's records
+  const update = (intent: PaymentIntent, changes: Partial<PaymentIntent>) => {
+    const next = { ...intent, ...changes };
+    intents.set(next.id, next);
+    return { ...next };
+  };
+
+  return {
+    async createIntent(amount, currency) {
+      const intent: PaymentIntent = {
+        id: createId("pi"),
+        amount,
+        currency,
+        status: "requires_payment_method",
+      };
+      intents.set(intent.id, intent);
+      return { ...intent };
+    },
+
+    async getIntent(intentId) {
+      return { ...findIntent(intentId) };
+    },
+
+    async confirmIntent(intentId, card) {
+      const intent = findIntent(intentId);
+      expectStatus(intent, "requires_payment_method");
+
+      const number = card.number.replace(/\D/g, "");
+      const decline = SANDBOX_DECLINES[number];
+      if (decline) {
+        return update(intent, { lastError: decline });
+      }
+      return update(intent, {
+        status:
+          number === SANDBOX_CARDS.challenge
+            ? "requires_action"
+            : "requires_capture",
+        lastError: undefined,
+      });
+    },
+
+    async authenticateIntent(intentId, code) {
+      const intent = findIntent(intentId);
+      expectStatus(intent, "requires_action");
+
+      return code === SANDBOX_CHALLENGE_CODE
+        ? update(intent, { status: "requires_capture" })
+        : update(intent, {
+            status: "requires_payment_method",
+            lastError: "authentication_failed",
+          });
+    },
+
+    async captureIntent(intentId) {
+      const intent = findIntent(intentId);
+      expectStatus(intent, "requires_capture");
+      return update(intent, { status: "succeeded" });
+    },
+
+    async cancelIntent(intentId) {
+      const intent = findIntent(intentId);
+      if (intent.status === "succeeded") {
+        throw new ConflictError(`Payment ${intent.id} was already captured`);
+      }
+      return update(intent, { status: "canceled" });
+    },
+  };
+}
+
+// Next.js bundles API routes separately, so the provider (and with it the
+// sandbox's intents) lives on globalThis to be shared between them
+const globalForPayments = globalThis as typeof globalThis & {
+  paymentProvider?: PaymentProvider;
+};
+
+// The sandbox until a real gateway is plugged in with setPaymentProvider
+export function getPaymentProvider(): PaymentProvider {
+  if (!globalForPayments.paymentProvider) {
+    globalForPayments.paymentProvider = createSandboxPaymentProvider();
+  }
+  return globalForPayments.paymentProvider;
+}
+
+export function setPaymentProvider(next: PaymentProvider): void {
+  globalForPayments.paymentProvider = next;
+}
+
+export function getPaymentErrorMessage(
+  code: PaymentErrorCode | undefined,
+  lang: "en" | "fr" = "en"
+): string {
+  switch (code) {
+    case "insufficient_funds":
+      return lang === "en"
+        ? "Your card has insufficient funds. Try another card."
+        : "Votre carte n'a pas de fonds suffisants. Essayez une autre carte.";
+    case "expired_card":
+      return lang === "en"
+        ? "Your card has expired. Try another card."
+        : "Votre carte a expiré. Essayez une autre carte.";
+    case "authentication_failed":
+      return lang === "en"
+        ? "We couldn't verify the payment with your bank. Please try again."
+        : "La vérification auprès de votre banque a échoué. Veuillez réessayer.";
+    case "processing_error":
+      return lang === "en"
+        ? "The payment couldn't be processed. Please try again in a moment."
+        : "Le paiement n'a pas pu être traité. Veuillez réessayer dans un instant.";
+    default:
+      return lang === "en"
+        ? "Your card was declined. Try another card."
+        : "Votre carte a été refusée. Essayez une autre carte.";
+  }
+}
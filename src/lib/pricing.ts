@@ -0,0 +1,172 @@
+import type { Listing } from "./mockData";
+
+// Prices shared by the booking form and the backend, which recomputes the
+// total of every booking instead of trusting the one sent by the client.
+
+export type ParticipantType = "adult" | "child" | "student";
+
+export type ParticipantCounts = Record<ParticipantType, number>;
+
+export const PARTICIPANT_TYPES: ParticipantType[] = [
+  "adult",
+  "child",
+  "student",
+];
+
+// Replaces the listing price on matching days or slots (weekend, peak hours,
+// special events). Every condition given has to match.
+export interface PriceOverride {
+  dates?: string[];
+  weekdays?: number[]; // 0 = Sunday
+  times?: string[];
+  price: number;
+  label: string;
+  labelFr: string;
+}
+
+export interface ListingPricing {
+  // Share of the adult price paid by each type, e.g. 0.5 for half price
+  rates?: Partial<Record<ParticipantType, number>>;
+  // The first matching override applies
+  overrides?: PriceOverride[];
+}
+
+export const CURRENCY = "MAD";
+
+const DEFAULT_RATES: Record<ParticipantType, number> = {
+  adult: 1,
+  child: 0.5,
+  student: 0.8,
+};
+
+// Largest groups first; the first one reached applies
+const GROUP_DISCOUNTS = [
+  { minParticipants: 10, rate: 0.15 },
+  { minParticipants: 6, rate: 0.1 },
+];
+
+export const SERVICE_FEE_RATE = 0.05;
+
+// Moroccan standard rate, charged on the price and the service fee
+export const VAT_RATE = 0.2;
+
+export interface PriceLine {
+  type: ParticipantType;
+  count: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface PriceQuote {
+  currency: string;
+  // Adult price for the chosen date and slot
+  basePrice: number;
+  // The override that set the base price, if any
+  override?: Pick<PriceOverride, "label" | "labelFr">;
+  // Price per participant of each type, booked or not
+  unitPrices: Record<ParticipantType, number>;
+  lines: PriceLine[];
+  subtotal: number;
+  discount?: { rate: number; amount: number };
+  serviceFee: number;
+  vat: number;
+  total: number;
+}
+
+// To the centime
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export function countParticipants(guests: ParticipantCounts): number {
+  return PARTICIPANT_TYPES.reduce((sum, type) => sum + guests[type], 0);
+}
+
+// Counts sent by a client; null unless every count is a whole number >= 0
+export function parseParticipantCounts(
+  value: unknown
+): ParticipantCounts | null {
+  if (!value || typeof value !== "object") return null;
+  const counts = value as Record<string, unknown>;
+  const isCount = (count: unknown) =>
+    typeof count === "number" && Number.isInteger(count) && count >= 0;
+
+  return PARTICIPANT_TYPES.every((type) => isCount(counts[type] ?? 0))
+    ? {
+        adult: (counts.adult as number) ?? 0,
+        child: (counts.child as number) ?? 0,
+        student: (counts.student as number) ?? 0,
+      }
+    : null;
+}
+
+function findOverride(
+  pricing: ListingPricing | undefined,
+  date: string,
+  time: string
+): PriceOverride | undefined {
+  // Dates are calendar days, so the weekday mustn't depend on the time zone
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+
+  return pricing?.overrides?.find(
+    (override) =>
+      (!override.dates || override.dates.includes(date)) &&
+      (!override.weekdays || override.weekdays.includes(weekday)) &&
+      (!override.times || override.times.includes(time))
+  );
+}
+
+export function quoteBooking(
+  listing: Pick<Listing, "price" | "pricing">,
+  booking: { date: string; time: string; guests: ParticipantCounts }
+): PriceQuote {
+  const override = findOverride(listing.pricing, booking.date, booking.time);
+  const basePrice = override ? override.price : listing.price;
+  const rates = { ...DEFAULT_RATES, ...listing.pricing?.rates };
+  const unitPrices = {} as Record<ParticipantType, number>;
+  PARTICIPANT_TYPES.forEach((type) => {
+    unitPrices[type] = roundAmount(basePrice * rates[type]);
+  });
+
+  const lines = PARTICIPANT_TYPES.filter(
+    (type) => booking.guests[type] > 0
+  ).map((type) => ({
+    type,
+    count: booking.guests[type],
+    unitPrice: unitPrices[type],
+    amount: roundAmount(unitPrices[type] * booking.guests[type]),
+  }));
+  const subtotal = roundAmount(
+    lines.reduce((sum, line) => sum + line.amount, 0)
+  );
+
+  const participants = countParticipants(booking.guests);
+  const groupDiscount = GROUP_DISCOUNTS.find(
+    (discount) => participants >= discount.minParticipants
+  );
+  const discount = groupDiscount && {
+    rate: groupDiscount.rate,
+    amount: roundAmount(subtotal * groupDiscount.rate),
+  };
+
+  const discounted = subtotal - (discount?.amount || 0);
+  const serviceFee = roundAmount(discounted * SERVICE_FEE_RATE);
+  const vat = roundAmount((discounted + serviceFee) * VAT_RATE);
+
+  return {
+    currency: CURRENCY,
+    basePrice,
+    override: override && { label: override.label, labelFr: override.labelFr },
+    unitPrices,
+    lines,
+    subtotal,
+    discount,
+    serviceFee,
+    vat,
+    total: roundAmount(discounted + serviceFee + vat),
+  };
+}
+
+// "189", "7.50" (or "7,50" in French)
+export function formatPrice(amount: number, lang: "en" | "fr" = "en"): string {
+  const text = Number.isInteger(amount) ? amount.toString() : amount.toFixed(2);
+  return lang === "fr" ? text.replace(".", ",") : text;
+}
@@ -0,0 +1,34 @@
+// Recent navbar searches, kept in localStorage (most recent first)
+
+const STORAGE_KEY = "casa-wonders-recent-searches";
+const MAX_RECENT_SEARCHES = 5;
+
+export function getRecentSearches(): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(saved)
+      ? saved.filter((item) => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function addRecentSearch(query: string): string[] {
+  const trimmed = query.trim();
+  if (!trimmed) return getRecentSearches();
+
+  const next = [
+    trimmed,
+    ...getRecentSearches().filter(
+      (item) => item.toLowerCase() !== trimmed.toLowerCase()
+    ),
+  ].slice(0, MAX_RECENT_SEARCHES);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function clearRecentSearches(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
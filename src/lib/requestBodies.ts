@@ -0,0 +1,152 @@
+import type { BookingRequest } from "./api";
+import { ValidationError } from "./errors";
+import type { SlotHold, User } from "./mockData";
+import type { CardDetails } from "./payments";
+import { parseParticipantCounts } from "./pricing";
+
+// Request bodies of the write endpoints, checked the same way by the local
+// API routes and the mock transport. Unlike query strings, invalid bodies are
+// rejected with a ValidationError instead of being cleaned up.
+
+export interface BookingBody {
+  booking: Omit<BookingRequest, "status">;
+  holdId?: string;
+  paymentIntentId?: string;
+}
+
+// PATCH /user/preferences
+export function parsePreferencesBody(
+  body: unknown
+): Partial<User["preferences"]> {
+  const { language, theme } = toRecord(body);
+  if (language !== undefined && language !== "en" && language !== "fr") {
+    throw new ValidationError("language must be 'en' or 'fr'");
+  }
+  if (theme !== undefined && theme !== "light" && theme !== "dark") {
+    throw new ValidationError("theme must be 'light' or 'dark'");
+  }
+
+  return {
+    ...(language && { language }),
+    ...(theme && { theme }),
+  };
+}
+
+// POST /user/wishlist
+export function parseWishlistBody(body: unknown): { listingId: string } {
+  const { listingId } = toRecord(body);
+  if (typeof listingId !== "string" || !listingId) {
+    throw new ValidationError("listingId is required");
+  }
+
+  return { listingId };
+}
+
+// POST /bookings. Any status or total sent along is ignored: only a captured
+// payment confirms a booking, and the price is always recomputed.
+export function parseBookingBody(body: unknown): BookingBody {
+  const fields = toRecord(body);
+  const { listingId, date, time, participants } = fields;
+  if (
+    typeof listingId !== "string" ||
+    typeof date !== "string" ||
+    typeof time !== "string" ||
+    typeof participants !== "number" ||
+    participants < 1
+  ) {
+    throw new ValidationError(
+      "listingId, date, time and participants are required"
+    );
+  }
+
+  const guests =
+    fields.guests === undefined
+      ? undefined
+      : parseParticipantCounts(fields.guests);
+  if (guests === null) {
+    throw new ValidationError("guests must be counts per participant type", {
+      guests: "invalid",
+    });
+  }
+
+  return {
+    booking: { listingId, date, time, participants, guests },
+    holdId: optionalString(fields.holdId),
+    paymentIntentId: optionalString(fields.paymentIntentId),
+  };
+}
+
+// POST /holds
+export function parseHoldBody(
+  body: unknown
+): Omit<SlotHold, "id" | "expiresAt"> {
+  const { listingId, date, time, participants } = toRecord(body);
+  if (
+    typeof listingId !== "string" ||
+    typeof date !== "string" ||
+    typeof time !== "string" ||
+    typeof participants !== "number" ||
+    participants < 1
+  ) {
+    throw new ValidationError(
+      "listingId, date, time and participants are required"
+    );
+  }
+
+  return { listingId, date, time, participants };
+}
+
+// POST /payments
+export function parsePaymentBody(body: unknown): {
+  amount: number;
+  currency: string;
+} {
+  const { amount, currency = "MAD" } = toRecord(body);
+  if (typeof amount !== "number" || amount <= 0) {
+    throw new ValidationError("A positive amount is required", {
+      amount: "invalid",
+    });
+  }
+  if (typeof currency !== "string") {
+    throw new ValidationError("currency must be a currency code", {
+      currency: "invalid",
+    });
+  }
+
+  return { amount, currency };
+}
+
+// POST /payments/:id/confirm
+export function parseCardBody(body: unknown): { card: CardDetails } {
+  const card = toRecord(toRecord(body).card);
+  const { number, expiry, cvc } = card;
+  if (
+    typeof number !== "string" ||
+    typeof expiry !== "string" ||
+    typeof cvc !== "string"
+  ) {
+    throw new ValidationError("card number, expiry and cvc are required");
+  }
+
+  return { card: { number, expiry, cvc } };
+}
+
+// POST /payments/:id/authenticate
+export function parseChallengeBody(body: unknown): { code: string } {
+  const { code } = toRecord(body);
+  if (typeof code !== "string") {
+    throw new ValidationError("code is required", { code: "required" });
+  }
+
+  return { code };
+}
+
+function toRecord(body: unknown): Record<string, unknown> {
+  return body && typeof body === "object"
+    ? (body as Record<string, unknown>)
+    : {};
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
@@ -0,0 +1,301 @@
+import { calculateDistance, LatLng } from "./geo";
+import { foldText } from "./search";
+import { errorFromResponse, NetworkError, NotFoundError } from "./errors";
+
+export type TravelMode = "walking" | "driving";
+
+export interface Route {
+  mode: TravelMode;
+  distanceKm: number;
+  durationMinutes: number;
+  // From origin to destination, for drawing on the map
+  path: LatLng[];
+  // Estimated without road data (local provider)
+  approximate: boolean;
+}
+
+export interface RoutingProvider {
+  getRoute(from: LatLng, to: LatLng, mode: TravelMode): Promise<Route>;
+  // Coordinates of a free-text address, or null when it can't be found
+  geocode(address: string): Promise<LatLng | null>;
+}
+
+// Average door-to-door speeds in the city, in km/h
+const AVERAGE_SPEED_KMH: Record<TravelMode, number> = {
+  walking: 4.8,
+  driving: 22,
+};
+
+// Places the local provider can resolve, with the names people type for them
+const KNOWN_PLACES: { names: string[]; lat: number; lng: number }[] = [
+  {
+    names: ["casa voyageurs", "gare casa voyageurs"],
+    lat: 33.5889,
+    lng: -7.5913,
+  },
+  { names: ["casa port", "gare casa port"], lat: 33.5994, lng: -7.6136 },
+  {
+    names: ["mohammed v airport", "aeroport mohammed v", "airport", "aeroport"],
+    lat: 33.3675,
+    lng: -7.5898,
+  },
+  {
+    names: ["hassan ii mosque", "mosquee hassan ii"],
+    lat: 33.6083,
+    lng: -7.6325,
+  },
+  { names: ["place mohammed v"], lat: 33.5928, lng: -7.6186 },
+  {
+    names: ["old medina", "ancienne medina", "medina"],
+    lat: 33.601,
+    lng: -7.619,
+  },
+  {
+    names: ["city centre", "city center", "centre-ville", "centre ville"],
+    lat: 33.592,
+    lng: -7.618,
+  },
+  { names: ["habous", "quartier habous"], lat: 33.578, lng: -7.602 },
+  { names: ["maarif"], lat: 33.5836, lng: -7.6378 },
+  { names: ["gauthier"], lat: 33.589, lng: -7.629 },
+  { names: ["bourgogne"], lat: 33.596, lng: -7.639 },
+  { names: ["anfa"], lat: 33.587, lng: -7.656 },
+  { names: ["ain diab", "corniche"], lat: 33.5923, lng: -7.678 },
+  { names: ["morocco mall"], lat: 33.576, lng: -7.706 },
+  { names: ["sidi maarouf"], lat: 33.535, lng: -7.64 },
+];
+
+// "33.59, -7.61" typed as an address
+const COORDINATES_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+function parseCoordinates(text: string): LatLng | null {
+  const match = COORDINATES_PATTERN.exec(text);
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
+}
+
+// Offline stand-in: streets are treated as a grid, so the route goes along
+// the latitude then the longitude. Good enough for development and as a
+// rough estimate.
+export function createLocalRoutingProvider(): RoutingProvider {
+  return {
+    async getRoute(from, to, mode) {
+      const corner = { lat: from.lat, lng: to.lng };
+      const distanceKm =
+        calculateDistance(from.lat, from.lng, corner.lat, corner.lng) +
+        calculateDistance(corner.lat, corner.lng, to.lat, to.lng);
+
+      return {
+        mode,
+        distanceKm,
+        durationMinutes: Math.max(
+          1,
+          Math.ceil((distanceKm / AVERAGE_SPEED_KMH[mode]) * 60)
+        ),
+        path: [from, corner, to],
+        approximate: true,
+      };
+    },
+
+    async geocode(address) {
+      const coordinates = parseCoordinates(address);
+      if (coordinates) return coordinates;
+
+      const folded = foldText(address);
+      const place = KNOWN_PLACES.find((candidate) =>
+        candidate.names.some((name) => folded.includes(name))
+      );
+      return place ? { lat: place.lat, lng: place.lng } : null;
+    },
+  };
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new NetworkError(`GET ${url}: ${error}`);
+  }
+  if (!response.ok) {
+    throw errorFromResponse(response.status);
+  }
+  return response.json();
+}
+
+// Spaces out calls to at least `intervalMs` apart, in the order they're made
+function createThrottle(intervalMs: number): () => Promise<void> {
+  let nextSlot = 0;
+  return () => {
+    const now = Date.now();
+    const wait = Math.max(0, nextSlot - now);
+    nextSlot = Math.max(now, nextSlot) + intervalMs;
+    return new Promise((resolve) => setTimeout(resolve, wait));
+  };
+}
+
+// Nominatim's usage policy allows at most one request per second
+const GEOCODE_INTERVAL_MS = 1000;
+
+interface OsrmResponse {
+  code: string;
+  routes?: {
+    distance: number;
+    duration: number;
+    geometry: { coordinates: [number, number][] };
+  }[];
+}
+
+// OSRM-compatible routing server, with an optional Nominatim-compatible
+// geocoder. Neither has a default: public instances have usage policies
+// (identification, rate limits) that have to be agreed to explicitly. Without
+// a geocoder, addresses are resolved like in the local provider.
+export function createOsrmRoutingProvider(
+  baseUrl: string,
+  geocoderUrl?: string
+): RoutingProvider {
+  const profiles: Record<TravelMode, string> = {
+    walking: "foot",
+    driving: "driving",
+  };
+  const localProvider = createLocalRoutingProvider();
+  const throttleGeocoding = createThrottle(GEOCODE_INTERVAL_MS);
+
+  return {
+    async getRoute(from, to, mode) {
+      const body = await fetchJson<OsrmResponse>(
+        `${baseUrl}/route/v1/${profiles[mode]}/${from.lng},${from.lat};${to.lng},${to.lat}?overview=full&geometries=geojson`
+      );
+      const route = body.routes?.[0];
+      if (body.code !== "Ok" || !route) {
+        throw new NotFoundError("No route found");
+      }
+
+      return {
+        mode,
+        distanceKm: route.distance / 1000,
+        durationMinutes: Math.max(1, Math.ceil(route.duration / 60)),
+        path: route.geometry.coordinates.map(([lng, lat]) => ({ lat, lng })),
+        approximate: false,
+      };
+    },
+
+    async geocode(address) {
+      const coordinates = parseCoordinates(address);
+      if (coordinates) return coordinates;
+      if (!geocoderUrl) return localProvider.geocode(address);
+
+      await throttleGeocoding();
+      const results = await fetchJson<{ lat: string; lon: string }[]>(
+        `${geocoderUrl}/search?format=json&limit=1&q=${encodeURIComponent(
+          address
+        )}`
+      );
+      return results.length > 0
+        ? { lat: Number(results[0].lat), lng: Number(results[0].lon) }
+        : null;
+    },
+  };
+}
+
+// Provider selection: NEXT_PUBLIC_ROUTING_URL points at an OSRM server and
+// NEXT_PUBLIC_GEOCODER_URL at a Nominatim server, otherwise routes are
+// estimated locally.
+function createRoutingProvider(): RoutingProvider {
+  const url = process.env.NEXT_PUBLIC_ROUTING_URL;
+  return url
+    ? createOsrmRoutingProvider(url, process.env.NEXT_PUBLIC_GEOCODER_URL)
+    : createLocalRoutingProvider();
+}
+
+let provider: RoutingProvider | null = null;
+
+function getRoutingProvider(): RoutingProvider {
+  if (!provider) {
+    provider = createRoutingProvider();
+  }
+  return provider;
+}
+
+// Swap the routing provider at runtime
+export function setRoutingProvider(next: RoutingProvider): void {
+  provider = next;
+}
+
+export function getDirections(
+  from: LatLng,
+  to: LatLng,
+  mode: TravelMode
+): Promise<Route> {
+  return getRoutingProvider().getRoute(from, to, mode);
+}
+
+export function geocodeAddress(address: string): Promise<LatLng | null> {
+  return getRoutingProvider().geocode(address);
+}
+
+export interface ExternalDirectionsLink {
+  id: "google" | "apple" | "waze";
+  label: string;
+  url: string;
+}
+
+// Directions in the usual map apps; without an origin they start from the
+// device's location
+export function getExternalDirectionsLinks(
+  to: LatLng,
+  mode: TravelMode,
+  from?: LatLng
+): ExternalDirectionsLink[] {
+  const destination = `${to.lat},${to.lng}`;
+  const origin = from && `${from.lat},${from.lng}`;
+
+  const google = new URLSearchParams({
+    api: "1",
+    destination,
+    travelmode: mode,
+  });
+  if (origin) google.set("origin", origin);
+
+  const apple = new URLSearchParams({
+    daddr: destination,
+    dirflg: mode === "walking" ? "w" : "d",
+  });
+  if (origin) apple.set("saddr", origin);
+
+  const links: ExternalDirectionsLink[] = [
+    {
+      id: "google",
+      label: "Google Maps",
+      url: `https://www.google.com/maps/dir/?${google}`,
+    },
+    {
+      id: "apple",
+      label: "Apple Maps",
+      url: `https://maps.apple.com/?${apple}`,
+    },
+  ];
+
+  // Waze only does driving directions
+  if (mode === "driving") {
+    links.push({
+      id: "waze",
+      label: "Waze",
+      url: `https://waze.com/ul?ll=${encodeURIComponent(
+        destination
+      )}&navigate=yes`,
+    });
+  }
+
+  return links;
+}
+
+// "12 min", "1 h 05"
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${hours} h ${rest.toString().padStart(2, "0")}`;
+}
@@ -0,0 +1,244 @@
+import { Listing } from "./mockData";
+
+// Full-text search over listings: accent-insensitive, typo-tolerant and
+// ranked by field-weighted relevance. Used by the backends to filter and
+// order results, and by the UI to highlight matched words.
+
+// Relative importance of a match in each field
+const FIELD_WEIGHTS = {
+  title: 5,
+  host: 3,
+  amenities: 2,
+  address: 2,
+  description: 1,
+};
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+// Ignored unless the query is made of nothing else
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "at",
+  "au",
+  "aux",
+  "de",
+  "des",
+  "du",
+  "en",
+  "et",
+  "for",
+  "in",
+  "la",
+  "le",
+  "les",
+  "of",
+  "the",
+  "to",
+  "un",
+  "une",
+]);
+
+interface IndexedListing {
+  listing: Listing;
+  fields: Record<SearchField, string[]>;
+}
+
+export interface SearchIndex {
+  entries: IndexedListing[];
+}
+
+// Lowercase and strip diacritics: "Mosquée" -> "mosquee"
+export function foldText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return foldText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function queryTerms(query: string): string[] {
+  const terms = tokenize(query);
+  const meaningful = terms.filter(
+    (term) => term.length > 1 && !STOP_WORDS.has(term)
+  );
+  return meaningful.length > 0 ? meaningful : terms;
+}
+
+// How well a (folded) query term matches a (folded) token, from 0 to 1
+export function matchTerm(term: string, token: string): number {
+  if (token === term) return 1;
+  if (term.length >= 2 && token.startsWith(term)) return 0.8;
+
+  const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  if (maxEdits === 0) return 0;
+
+  const distance = editDistance(term, token, maxEdits);
+  return distance <= maxEdits ? 0.6 - 0.15 * (distance - 1) : 0;
+}
+
+export function buildSearchIndex(listings: Listing[]): SearchIndex {
+  return {
+    entries: listings.map((listing) => ({
+      listing,
+      fields: {
+        title: tokenize(`${listing.title} ${listing.titleFr}`),
+        host: tokenize(listing.host.name),
+        amenities: tokenize(listing.amenities.join(" ")),
+        address: tokenize(
+          [
+            listing.location.address,
+            listing.location.addressFr,
+            listing.location.neighbourhood,
+            listing.location.neighbourhoodFr,
+          ].join(" ")
+        ),
+        description: tokenize(
+          `${listing.description} ${listing.descriptionFr}`
+        ),
+      },
+    })),
+  };
+}
+
+// Relevance score per listing id. Every meaningful query term has to match
+// somewhere; listings that miss one are left out.
+export function searchListings(
+  index: SearchIndex,
+  query: string
+): Map<string, number> {
+  const terms = queryTerms(query);
+  const scores = new Map<string, number>();
+  if (terms.length === 0) return scores;
+
+  index.entries.forEach(({ listing, fields }) => {
+    let total = 0;
+
+    for (const term of terms) {
+      let best = 0;
+      (Object.keys(fields) as SearchField[]).forEach((field) => {
+        fields[field].forEach((token) => {
+          best = Math.max(best, FIELD_WEIGHTS[field] * matchTerm(term, token));
+        });
+      });
+      if (best === 0) return;
+      total += best;
+    }
+
+    scores.set(listing.id, total);
+  });
+
+  return scores;
+}
+
+// Whether every query term matches a word of a short label (category or
+// neighbourhood name), for autocomplete
+export function matchesLabel(query: string, label: string): boolean {
+  const terms = queryTerms(query);
+  const tokens = tokenize(label);
+  return (
+    terms.length > 0 &&
+    terms.every((term) => tokens.some((token) => matchTerm(term, token) > 0))
+  );
+}
+
+// Index cache keyed by the listings array, so repeated queries against the
+// same catalogue don't re-tokenize it
+const indexCache = new WeakMap<Listing[], SearchIndex>();
+
+export function getSearchIndex(listings: Listing[]): SearchIndex {
+  let index = indexCache.get(listings);
+  if (!index) {
+    index = buildSearchIndex(listings);
+    indexCache.set(listings, index);
+  }
+  return index;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Split text into segments, flagging the words that match the query
+export function highlightMatches(
+  text: string,
+  query: string
+): HighlightSegment[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  const push = (segment: string, match: boolean) => {
+    if (!segment) return;
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) {
+      last.text += segment;
+    } else {
+      segments.push({ text: segment, match });
+    }
+  };
+
+  // Walk the original text so accents and casing are preserved
+  let word = "";
+  let separator = "";
+  const flushWord = () => {
+    if (!word) return;
+    const folded = foldText(word);
+    push(
+      word,
+      terms.some((term) => matchTerm(term, folded) > 0)
+    );
+    word = "";
+  };
+
+  Array.from(text).forEach((char) => {
+    if (/[a-z0-9]/.test(foldText(char))) {
+      push(separator, false);
+      separator = "";
+      word += char;
+    } else {
+      flushWord();
+      separator += char;
+    }
+  });
+  flushWord();
+  push(separator, false);
+
+  return segments;
+}
+
+// Optimal string alignment distance, giving up once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
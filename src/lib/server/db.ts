@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { mockListings, mockUser } from "../mockData";
+import type { DataStore } from "../services";
+
+// JSON file backing the local API routes. Seeded from the mock data on first
+// use; delete the file to reset.
+const DB_PATH =
+  process.env.CASA_WONDERS_DB || path.join(process.cwd(), "data", "db.json");
+
+async function loadStore(): Promise<DataStore> {
+  try {
+    const raw = await fs.readFile(DB_PATH, "utf8");
+    return JSON.parse(raw) as DataStore;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    const seed: DataStore = JSON.parse(
+      JSON.stringify({ listings: mockListings, user: mockUser, holds: [] })
+    );
+    await saveStore(seed);
+    return seed;
+  }
+}
+
+async function saveStore(store: DataStore): Promise<void> {
+  await fs.mkdir(path.dirname(DB_PATH), { recursive: true });
+  // Write then rename so a crash never leaves a half-written file
+  const tmpPath = `${DB_PATH}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(store, null, 2));
+  await fs.rename(tmpPath, DB_PATH);
+}
+
+// All access goes through one queue so concurrent requests can't interleave
+// a read-modify-write cycle.
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+export function readStore<T>(read: (store: DataStore) => T): Promise<T> {
+  return enqueue(async () => read(await loadStore()));
+}
+
+export function updateStore<T>(
+  mutate: (store: DataStore) => T | Promise<T>
+): Promise<T> {
+  return enqueue(async () => {
+    const store = await loadStore();
+    const result = await mutate(store);
+    await saveStore(store);
+    return result;
+  });
+}
@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ApiError, ValidationError } from "../errors";
+import { HttpMethod } from "../transport";
+
+type MethodHandlers = Partial<
+  Record<HttpMethod, (req: NextApiRequest, res: NextApiResponse) => unknown>
+>;
+
+// Dispatch an API route by HTTP method and turn thrown ApiErrors into
+// JSON error responses.
+export function apiRoute(handlers: MethodHandlers) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    const handler = handlers[req.method as HttpMethod];
+    if (!handler) {
+      res.setHeader("Allow", Object.keys(handlers));
+      res.status(405).json({ message: `Method ${req.method} not allowed` });
+      return;
+    }
+
+    try {
+      const result = await handler(req, res);
+      if (res.headersSent) return;
+      if (result === undefined) {
+        res.status(204).end();
+      } else {
+        res.status(200).json(result);
+      }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        res.status(error.status || 500).json({
+          message: error.message,
+          ...(error instanceof ValidationError && { fields: error.fields }),
+        });
+      } else {
+        console.error(`${req.method} ${req.url} failed:`, error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  };
+}
+
+export function routeParam(req: NextApiRequest, name: string): string {
+  const value = req.query[name];
+  return Array.isArray(value) ? value[0] : value || "";
+}
@@ -0,0 +1,704 @@
+import { Listing, User, Booking, SlotHold } from "./mockData";
+import { getSearchIndex, matchesLabel, searchListings } from "./search";
+import { ConflictError, NotFoundError, ValidationError } from "./errors";
+import { calculateDistance, isInArea } from "./geo";
+import { createId } from "./ids";
+import { getPaymentProvider } from "./payments";
+import { countParticipants, quoteBooking } from "./pricing";
+import { RATING_THRESHOLDS } from "./listingQuery";
+import type {
+  BookingRequest,
+  DayAvailability,
+  ListingFacets,
+  ListingFilters,
+  ListingSort,
+  PaginatedResponse,
+  SearchSuggestion,
+  TimeOfDay,
+} from "./api";
+
+// Backend operations over a data store. The mock transport runs them against
+// the in-memory mock data; any other backend only has to provide a store.
+
+export interface DataStore {
+  listings: Listing[];
+  user: User;
+  holds: SlotHold[];
+}
+
+// Listings
+export function queryListings(
+  store: DataStore,
+  filters: ListingFilters | undefined,
+  page: number,
+  limit: number,
+  sort?: ListingSort,
+  cursor?: string
+): PaginatedResponse<Listing> {
+  const { listings: filteredListings, relevance } = filterListings(
+    store,
+    filters
+  );
+
+  const ordered = filteredListings
+    .map((listing) => ({
+      listing,
+      key: getSortKey(listing, sort, filters?.location, relevance),
+    }))
+    .sort((a, b) => compareSortKeys(a.key, b.key));
+
+  // Pagination: resume after the cursor when there is one, else by page
+  let startIndex = (page - 1) * limit;
+  if (cursor) {
+    const after = decodeCursor(cursor);
+    if (!after) {
+      throw new ValidationError("Invalid cursor", { cursor: "invalid" });
+    }
+    startIndex = ordered.findIndex(
+      (entry) => compareSortKeys(entry.key, after) > 0
+    );
+    if (startIndex === -1) startIndex = ordered.length;
+  }
+  const endIndex = startIndex + limit;
+  const pageEntries = ordered.slice(startIndex, endIndex);
+  const hasMore = endIndex < ordered.length;
+
+  return {
+    data: pageEntries.map((entry) => entry.listing),
+    total: ordered.length,
+    page,
+    limit,
+    hasMore,
+    nextCursor: hasMore
+      ? encodeCursor(pageEntries[pageEntries.length - 1].key)
+      : null,
+  };
+}
+
+// Listings matching every filter, plus their relevance for text searches
+function filterListings(
+  store: DataStore,
+  filters: ListingFilters | undefined
+): { listings: Listing[]; relevance?: Map<string, number> } {
+  let filteredListings = [...store.listings];
+  let relevance: Map<string, number> | undefined;
+
+  // Apply filters
+  if (filters) {
+    if (filters.query?.trim()) {
+      relevance = searchListings(getSearchIndex(store.listings), filters.query);
+      filteredListings = filteredListings.filter((listing) =>
+        relevance!.has(listing.id)
+      );
+    }
+    if (filters.category?.length) {
+      filteredListings = filteredListings.filter((listing) =>
+        filters.category!.includes(listing.category)
+      );
+    }
+    if (filters.minPrice !== undefined) {
+      filteredListings = filteredListings.filter(
+        (listing) => listing.price >= filters.minPrice!
+      );
+    }
+    if (filters.maxPrice !== undefined) {
+      filteredListings = filteredListings.filter(
+        (listing) => listing.price <= filters.maxPrice!
+      );
+    }
+    if (filters.minRating !== undefined) {
+      filteredListings = filteredListings.filter(
+        (listing) => listing.rating >= filters.minRating!
+      );
+    }
+    if (filters.date || filters.timeOfDay) {
+      filteredListings = filteredListings.filter((listing) =>
+        hasOpenSlots(store, listing, {
+          from: filters.date,
+          to: filters.dateTo || filters.date,
+          timeOfDay: filters.timeOfDay,
+        })
+      );
+    }
+    if (filters.amenities?.length) {
+      const amenities = filters.amenities;
+      filteredListings = filteredListings.filter((listing) =>
+        filters.amenitiesMatch === "any"
+          ? amenities.some((amenity) => listing.amenities.includes(amenity))
+          : amenities.every((amenity) => listing.amenities.includes(amenity))
+      );
+    }
+    if (filters.verifiedHost) {
+      filteredListings = filteredListings.filter(
+        (listing) => listing.host.verified
+      );
+    }
+    if (filters.location) {
+      filteredListings = filteredListings.filter((listing) => {
+        const distance = calculateDistance(
+          filters.location!.lat,
+          filters.location!.lng,
+          listing.location.lat,
+          listing.location.lng
+        );
+        return distance <= filters.location!.radius;
+      });
+    }
+    if (filters.area) {
+      filteredListings = filteredListings.filter((listing) =>
+        isInArea(listing.location, filters.area!)
+      );
+    }
+  }
+
+  return { listings: filteredListings, relevance };
+}
+
+// Facet counts: for each group, how many listings each option would match
+// given every other active filter, so options in the same group can still
+// be compared against each other
+export function computeFacets(
+  store: DataStore,
+  filters: ListingFilters = {}
+): ListingFacets {
+  const matching = (changes: Partial<ListingFilters>) =>
+    filterListings(store, { ...filters, ...changes }).listings;
+
+  const byCategory = matching({ category: undefined });
+  const byPrice = matching({ minPrice: undefined, maxPrice: undefined });
+  const byRating = matching({ minRating: undefined });
+  // With "all", picking another amenity narrows the current results; with
+  // "any" it adds to what the other filters allow
+  const byAmenity =
+    filters.amenitiesMatch === "any"
+      ? matching({ amenities: undefined })
+      : matching({});
+
+  const categories: ListingFacets["categories"] = {
+    restaurant: 0,
+    event: 0,
+    cultural: 0,
+  };
+  byCategory.forEach((listing) => categories[listing.category]++);
+
+  const amenityCounts = new Map<string, number>();
+  byAmenity.forEach((listing) =>
+    listing.amenities.forEach((amenity) =>
+      amenityCounts.set(amenity, (amenityCounts.get(amenity) || 0) + 1)
+    )
+  );
+
+  return {
+    categories,
+    ...priceDistribution(store.listings, byPrice),
+    ratings: RATING_THRESHOLDS.map((value) => ({
+      value,
+      count: byRating.filter((listing) => listing.rating >= value).length,
+    })),
+    amenities: Array.from(amenityCounts, ([value, count]) => ({
+      value,
+      count,
+    })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+  };
+}
+
+const PRICE_HISTOGRAM_BINS = 10;
+
+// Price range of the whole catalogue (so the slider bounds don't move as
+// filters change) and a histogram of the matching listings over it
+function priceDistribution(
+  catalogue: Listing[],
+  listings: Listing[]
+): Pick<ListingFacets, "priceRange" | "priceHistogram"> {
+  if (catalogue.length === 0) {
+    return { priceRange: { min: 0, max: 0 }, priceHistogram: [] };
+  }
+
+  const prices = catalogue.map((listing) => listing.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const bins = max > min ? PRICE_HISTOGRAM_BINS : 1;
+  const width = (max - min) / bins;
+
+  const priceHistogram = Array.from({ length: bins }, (_, index) => ({
+    min: min + index * width,
+    max: index === bins - 1 ? max : min + (index + 1) * width,
+    count: 0,
+  }));
+  listings.forEach((listing) => {
+    const index =
+      width > 0 ? Math.floor((listing.price - min) / width) : bins - 1;
+    // The catalogue max lands on the upper edge of the last bin
+    priceHistogram[Math.min(Math.max(index, 0), bins - 1)].count++;
+  });
+
+  return { priceRange: { min, max }, priceHistogram };
+}
+
+// Sort keys compare element by element and always end with the listing id,
+// so the order is total and a cursor pins an exact position in it
+type SortKey = (number | string)[];
+
+function getSortKey(
+  listing: Listing,
+  sort: ListingSort | undefined,
+  fallbackOrigin: { lat: number; lng: number } | undefined,
+  relevance: Map<string, number> | undefined
+): SortKey {
+  switch (sort?.key) {
+    case "price_asc":
+      return [listing.price, listing.id];
+    case "price_desc":
+      return [-listing.price, listing.id];
+    case "rating":
+      return [-listing.rating, -listing.reviewCount, listing.id];
+    case "reviews":
+      return [-listing.reviewCount, listing.id];
+    case "newest":
+      return [-Date.parse(listing.createdAt), listing.id];
+    case "distance": {
+      const origin = sort.origin || fallbackOrigin;
+      if (!origin) break;
+      return [
+        calculateDistance(
+          origin.lat,
+          origin.lng,
+          listing.location.lat,
+          listing.location.lng
+        ),
+        listing.id,
+      ];
+    }
+  }
+
+  // Recommended: text searches rank by relevance, otherwise catalogue order
+  return relevance
+    ? [-(relevance.get(listing.id) || 0), listing.id]
+    : [listing.id];
+}
+
+function compareSortKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const left = a[i];
+    const right = b[i];
+    const diff =
+      typeof left === "number" && typeof right === "number"
+        ? left - right
+        : String(left).localeCompare(String(right), undefined, {
+            numeric: true,
+          });
+    if (diff !== 0) return diff;
+  }
+  return a.length - b.length;
+}
+
+function encodeCursor(key: SortKey): string {
+  return btoa(encodeURIComponent(JSON.stringify(key)));
+}
+
+function decodeCursor(cursor: string): SortKey | null {
+  try {
+    const key = JSON.parse(decodeURIComponent(atob(cursor)));
+    return Array.isArray(key) &&
+      key.every((part) => ["number", "string"].includes(typeof part))
+      ? key
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+const CATEGORY_LABELS: Record<Listing["category"], [string, string]> = {
+  restaurant: ["Restaurants", "Restaurants"],
+  event: ["Events", "Événements"],
+  cultural: ["Cultural", "Culturel"],
+};
+
+// Autocomplete: matching categories and neighbourhoods first, then the most
+// relevant listings, up to `limit` in total
+export function suggestSearches(
+  store: DataStore,
+  query: string,
+  limit: number
+): SearchSuggestion[] {
+  if (!query.trim()) return [];
+
+  const suggestions: SearchSuggestion[] = [];
+
+  (Object.keys(CATEGORY_LABELS) as Listing["category"][]).forEach(
+    (category) => {
+      const [label, labelFr] = CATEGORY_LABELS[category];
+      if (
+        matchesLabel(query, `${category} ${label} ${labelFr}`) &&
+        store.listings.some((listing) => listing.category === category)
+      ) {
+        suggestions.push({ type: "category", value: category, label, labelFr });
+      }
+    }
+  );
+
+  const neighbourhoods = new Set<string>();
+  store.listings.forEach(({ location }) => {
+    if (
+      !neighbourhoods.has(location.neighbourhood) &&
+      matchesLabel(
+        query,
+        `${location.neighbourhood} ${location.neighbourhoodFr}`
+      )
+    ) {
+      neighbourhoods.add(location.neighbourhood);
+      suggestions.push({
+        type: "neighbourhood",
+        value: location.neighbourhood,
+        label: location.neighbourhood,
+        labelFr: location.neighbourhoodFr,
+      });
+    }
+  });
+
+  const relevance = searchListings(getSearchIndex(store.listings), query);
+  store.listings
+    .filter((listing) => relevance.has(listing.id))
+    .sort((a, b) => relevance.get(b.id)! - relevance.get(a.id)!)
+    .forEach((listing) => {
+      suggestions.push({
+        type: "listing",
+        value: listing.id,
+        label: listing.title,
+        labelFr: listing.titleFr,
+      });
+    });
+
+  return suggestions.slice(0, limit);
+}
+
+export function findListing(store: DataStore, id: string): Listing | null {
+  return store.listings.find((listing) => listing.id === id) || null;
+}
+
+// User
+export function updatePreferences(
+  store: DataStore,
+  preferences: Partial<User["preferences"]>
+): User {
+  store.user.preferences = { ...store.user.preferences, ...preferences };
+  return store.user;
+}
+
+// Wishlist
+export function addWishlistItem(store: DataStore, listingId: string): void {
+  if (!findListing(store, listingId)) {
+    throw new NotFoundError(`Listing ${listingId} not found`);
+  }
+  if (!store.user.wishlist.includes(listingId)) {
+    store.user.wishlist.push(listingId);
+  }
+}
+
+export function removeWishlistItem(store: DataStore, listingId: string): void {
+  store.user.wishlist = store.user.wishlist.filter((id) => id !== listingId);
+}
+
+export function listWishlist(store: DataStore): Listing[] {
+  return store.listings.filter((listing) =>
+    store.user.wishlist.includes(listing.id)
+  );
+}
+
+// Bookings
+// Turns the hold, if it's still active, into the booking; without a hold
+// the places still have to be free.
+export function insertBooking(
+  store: DataStore,
+  booking: BookingRequest,
+  holdId?: string
+): Booking {
+  const guests = booking.guests || {
+    adult: booking.participants,
+    child: 0,
+    student: 0,
+  };
+  if (countParticipants(guests) !== booking.participants) {
+    throw new ValidationError(
+      "guests don't add up to the number of participants",
+      { participants: "mismatch" }
+    );
+  }
+
+  const hold = holdId ? findActiveHold(store, holdId) : undefined;
+  if (
+    hold &&
+    (hold.listingId !== booking.listingId ||
+      hold.date !== booking.date ||
+      hold.time !== booking.time)
+  ) {
+    throw new ValidationError(`Hold ${hold.id} is for another slot`);
+  }
+
+  // Cancelled bookings don't take up places
+  const listing = checkPlacesLeft(
+    store,
+    booking,
+    booking.status === "cancelled" ? 0 : booking.participants,
+    hold?.id
+  );
+
+  const newBooking: Booking = {
+    ...booking,
+    guests,
+    totalPrice: quoteBooking(listing, { ...booking, guests }).total,
+    id: createId("booking"),
+    createdAt: new Date().toISOString(),
+  };
+
+  store.user.bookings.push(newBooking);
+  if (hold) {
+    store.holds = store.holds.filter((h) => h.id !== hold.id);
+  }
+  return newBooking;
+}
+
+// Books the slot and takes the payment. The intent must already be
+// authorised for the booking total; the booking is only confirmed once the
+// money has been captured.
+export async function insertPaidBooking(
+  store: DataStore,
+  booking: Omit<BookingRequest, "status">,
+  paymentIntentId: string,
+  holdId?: string
+): Promise<Booking> {
+  const payments = getPaymentProvider();
+  const intent = await payments.getIntent(paymentIntentId);
+  if (intent.status !== "requires_capture") {
+    throw new ValidationError(`Payment ${intent.id} is not authorised`, {
+      payment: intent.status,
+    });
+  }
+
+  // Places and price are checked (and the hold used up) before any money is
+  // taken; anything failing from here leaves the store as it was
+  const holds = store.holds;
+  const newBooking = insertBooking(
+    store,
+    { ...booking, status: "pending" },
+    holdId
+  );
+  const rollback = () => {
+    store.holds = holds;
+    store.user.bookings = store.user.bookings.filter(
+      (b) => b.id !== newBooking.id
+    );
+  };
+
+  if (intent.amount !== newBooking.totalPrice) {
+    rollback();
+    throw new ValidationError(
+      `Payment ${intent.id} doesn't match the booking total`,
+      { payment: "amount" }
+    );
+  }
+
+  try {
+    await payments.captureIntent(intent.id);
+  } catch (error) {
+    rollback();
+    throw error;
+  }
+
+  newBooking.status = "confirmed";
+  newBooking.paymentIntentId = intent.id;
+  return newBooking;
+}
+
+export function cancelBookingRecord(
+  store: DataStore,
+  bookingId: string
+): Booking | null {
+  const booking = store.user.bookings.find((b) => b.id === bookingId);
+  if (booking) {
+    booking.status = "cancelled";
+  }
+  return booking || null;
+}
+
+// Inventory
+const HOLD_DURATION_MS = 10 * 60 * 1000;
+
+interface SlotRef {
+  listingId: string;
+  date: string;
+  time: string;
+}
+
+function findSlot(listing: Listing, date: string, time: string) {
+  return listing.availability
+    .find((day) => day.date === date)
+    ?.slots.find((slot) => slot.time === time);
+}
+
+const isHoldActive = (hold: SlotHold, now = Date.now()) =>
+  Date.parse(hold.expiresAt) > now;
+
+function findActiveHold(store: DataStore, holdId: string) {
+  return store.holds.find((hold) => hold.id === holdId && isHoldActive(hold));
+}
+
+const isSameSlot = (a: SlotRef, b: SlotRef) =>
+  a.listingId === b.listingId && a.date === b.date && a.time === b.time;
+
+// Places taken in a slot by bookings that aren't cancelled and by holds that
+// haven't expired, leaving out the given hold
+function takenPlaces(
+  store: DataStore,
+  slot: SlotRef,
+  ignoreHoldId?: string
+): number {
+  const booked = store.user.bookings
+    .filter(
+      (booking) => booking.status !== "cancelled" && isSameSlot(booking, slot)
+    )
+    .reduce((sum, booking) => sum + booking.participants, 0);
+  const held = store.holds
+    .filter(
+      (hold) =>
+        hold.id !== ignoreHoldId && isHoldActive(hold) && isSameSlot(hold, slot)
+    )
+    .reduce((sum, hold) => sum + hold.participants, 0);
+  return booked + held;
+}
+
+function remainingPlaces(
+  store: DataStore,
+  slot: SlotRef,
+  capacity: number,
+  ignoreHoldId?: string
+): number {
+  return Math.max(0, capacity - takenPlaces(store, slot, ignoreHoldId));
+}
+
+// Throws unless the slot exists and has room for the participants
+function checkPlacesLeft(
+  store: DataStore,
+  slotRef: SlotRef,
+  participants: number,
+  ignoreHoldId?: string
+): Listing {
+  const listing = findListing(store, slotRef.listingId);
+  if (!listing) {
+    throw new NotFoundError(`Listing ${slotRef.listingId} not found`);
+  }
+
+  const slot = findSlot(listing, slotRef.date, slotRef.time);
+  if (!slot) {
+    throw new ValidationError(
+      `No ${slotRef.time} slot on ${slotRef.date} for listing ${listing.id}`,
+      { time: "unavailable" }
+    );
+  }
+
+  const remaining = remainingPlaces(
+    store,
+    slotRef,
+    slot.capacity,
+    ignoreHoldId
+  );
+  if (participants > remaining) {
+    throw new ConflictError(
+      remaining > 0
+        ? `Only ${remaining} places left at ${slotRef.time} on ${slotRef.date}`
+        : `The ${slotRef.time} slot on ${slotRef.date} is fully booked`
+    );
+  }
+  return listing;
+}
+
+export function createHold(
+  store: DataStore,
+  request: SlotRef & { participants: number }
+): SlotHold {
+  const now = Date.now();
+  // Expired holds no longer count, so there's no need to keep them
+  store.holds = store.holds.filter((hold) => isHoldActive(hold, now));
+
+  checkPlacesLeft(store, request, request.participants);
+
+  const hold: SlotHold = {
+    id: createId("hold"),
+    listingId: request.listingId,
+    date: request.date,
+    time: request.time,
+    participants: request.participants,
+    expiresAt: new Date(now + HOLD_DURATION_MS).toISOString(),
+  };
+  store.holds.push(hold);
+  return hold;
+}
+
+// Releasing a hold that has expired or was already used is not an error
+export function releaseHold(store: DataStore, holdId: string): void {
+  store.holds = store.holds.filter((hold) => hold.id !== holdId);
+}
+
+// Capacity and remaining places of every slot of a listing
+export function getListingAvailability(
+  store: DataStore,
+  listingId: string
+): DayAvailability[] {
+  const listing = findListing(store, listingId);
+  if (!listing) {
+    throw new NotFoundError(`Listing ${listingId} not found`);
+  }
+
+  return listing.availability.map((day) => ({
+    date: day.date,
+    slots: day.slots.map((slot) => ({
+      time: slot.time,
+      capacity: slot.capacity,
+      remaining: remainingPlaces(
+        store,
+        { listingId, date: day.date, time: slot.time },
+        slot.capacity
+      ),
+    })),
+  }));
+}
+
+// Availability
+const TIME_OF_DAY_WINDOWS: Record<TimeOfDay, [string, string]> = {
+  morning: ["05:00", "12:00"],
+  afternoon: ["12:00", "17:00"],
+  evening: ["17:00", "24:00"],
+};
+
+export function isInTimeOfDay(slot: string, timeOfDay: TimeOfDay): boolean {
+  const [start, end] = TIME_OF_DAY_WINDOWS[timeOfDay];
+  return slot >= start && slot < end;
+}
+
+// Whether the listing has at least one slot with places left, optionally
+// between two dates (inclusive) and in a time-of-day window. Full slots and
+// slots taken up by holds don't count.
+export function hasOpenSlots(
+  store: DataStore,
+  listing: Listing,
+  {
+    from,
+    to,
+    timeOfDay,
+  }: { from?: string; to?: string; timeOfDay?: TimeOfDay } = {}
+): boolean {
+  return listing.availability.some(
+    (day) =>
+      (!from || day.date >= from) &&
+      (!to || day.date <= to) &&
+      day.slots.some(
+        (slot) =>
+          (!timeOfDay || isInTimeOfDay(slot.time, timeOfDay)) &&
+          remainingPlaces(
+            store,
+            { listingId: listing.id, date: day.date, time: slot.time },
+            slot.capacity
+          ) > 0
+      )
+  );
+}
@@ -0,0 +1,103 @@
+import { errorFromResponse, NetworkError } from "./errors";
+
+// Base API URL for the real backend
+export const API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000/api";
+
+export type HttpMethod = "GET" | "POST" | "PATCH" | "DELETE";
+
+export type QueryParams = Record<string, string | string[] | undefined>;
+
+export interface ApiRequest {
+  method: HttpMethod;
+  path: string;
+  query?: QueryParams;
+  body?: unknown;
+  auth?: boolean;
+}
+
+export interface Transport {
+  request<T>(req: ApiRequest): Promise<T>;
+}
+
+export function buildQueryString(query?: QueryParams): string {
+  if (!query) return "";
+
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined) return;
+    if (Array.isArray(value)) {
+      value.forEach((item) => params.append(key, item));
+    } else {
+      params.set(key, value);
+    }
+  });
+
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : "";
+}
+
+// Relative base URLs (e.g. "/api" for the local Next.js routes) only work in
+// the browser; during SSR they are resolved against the local server.
+function resolveBaseUrl(baseUrl: string): string {
+  if (baseUrl.startsWith("/") && typeof window === "undefined") {
+    return `http://localhost:${process.env.PORT || 3000}${baseUrl}`;
+  }
+  return baseUrl;
+}
+
+// Real HTTP client talking to the backend at API_BASE_URL
+export function createHttpTransport(baseUrl = API_BASE_URL): Transport {
+  return {
+    async request<T>(req: ApiRequest): Promise<T> {
+      const headers: Record<string, string> = {};
+      if (req.body !== undefined) {
+        headers["Content-Type"] = "application/json";
+      }
+      if (req.auth) {
+        headers.Authorization = `Bearer ${getAuthToken()}`;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(
+          `${resolveBaseUrl(baseUrl)}${req.path}${buildQueryString(req.query)}`,
+          {
+            method: req.method,
+            headers,
+            body: req.body !== undefined ? JSON.stringify(req.body) : undefined,
+          }
+        );
+      } catch (error) {
+        throw new NetworkError(`${req.method} ${req.path}: ${error}`);
+      }
+
+      // 204 No Content and friends
+      const text = await response.text();
+      const body = text ? safeParse(text) : undefined;
+
+      if (!response.ok) {
+        throw errorFromResponse(response.status, {
+          message: `${req.method} ${req.path} failed with status ${response.status}`,
+          ...(typeof body === "object" && body),
+        });
+      }
+
+      return body as T;
+    },
+  };
+}
+
+function safeParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Auth helpers (placeholder for now)
+export function getAuthToken(): string {
+  // TODO: Implement actual auth token retrieval
+  return "mock-token";
+}
@@ -0,0 +1,15 @@
+import { NotFoundError } from "@/lib/errors";
+import { updateStore } from "@/lib/server/db";
+import { apiRoute, routeParam } from "@/lib/server/routes";
+import { cancelBookingRecord } from "@/lib/services";
+
+export default apiRoute({
+  POST: (req) => {
+    const bookingId = routeParam(req, "id");
+    return updateStore((store) => {
+      if (!cancelBookingRecord(store, bookingId)) {
+        throw new NotFoundError(`Booking ${bookingId} not found`);
+      }
+    });
+  },
+});
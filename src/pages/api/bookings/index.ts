@@ -0,0 +1,18 @@
+import { parseBookingBody } from "@/lib/requestBodies";
+import { updateStore } from "@/lib/server/db";
+import { apiRoute } from "@/lib/server/routes";
+import { insertBooking, insertPaidBooking } from "@/lib/services";
+
+export default apiRoute({
+  POST: (req) => {
+    const { booking, holdId, paymentIntentId } = parseBookingBody(req.body);
+
+    // Checks the listing, the slot and the places left, prices the booking
+    // and uses up the hold. Only a captured payment confirms a booking.
+    return updateStore((store) =>
+      paymentIntentId
+        ? insertPaidBooking(store, booking, paymentIntentId, holdId)
+        : insertBooking(store, { ...booking, status: "pending" }, holdId)
+    );
+  },
+});
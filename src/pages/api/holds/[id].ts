@@ -0,0 +1,10 @@
+import { updateStore } from "@/lib/server/db";
+import { apiRoute, routeParam } from "@/lib/server/routes";
+import { releaseHold } from "@/lib/services";
+
+export default apiRoute({
+  DELETE: (req) => {
+    const holdId = routeParam(req, "id");
+    return updateStore((store) => releaseHold(store, holdId));
+  },
+});
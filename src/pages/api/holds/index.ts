@@ -0,0 +1,11 @@
+import { parseHoldBody } from "@/lib/requestBodies";
+import { updateStore } from "@/lib/server/db";
+import { apiRoute } from "@/lib/server/routes";
+import { createHold } from "@/lib/services";
+
+export default apiRoute({
+  POST: (req) => {
+    const hold = parseHoldBody(req.body);
+    return updateStore((store) => createHold(store, hold));
+  },
+});
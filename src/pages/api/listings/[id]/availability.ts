@@ -0,0 +1,10 @@
+import { readStore } from "@/lib/server/db";
+import { apiRoute, routeParam } from "@/lib/server/routes";
+import { getListingAvailability } from "@/lib/services";
+
+export default apiRoute({
+  GET: (req) => {
+    const id = routeParam(req, "id");
+    return readStore((store) => getListingAvailability(store, id));
+  },
+});
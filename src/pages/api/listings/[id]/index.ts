@@ -0,0 +1,15 @@
+import { NotFoundError } from "@/lib/errors";
+import { readStore } from "@/lib/server/db";
+import { apiRoute, routeParam } from "@/lib/server/routes";
+import { findListing } from "@/lib/services";
+
+export default apiRoute({
+  GET: async (req) => {
+    const id = routeParam(req, "id");
+    const listing = await readStore((store) => findListing(store, id));
+    if (!listing) {
+      throw new NotFoundError(`Listing ${id} not found`);
+    }
+    return listing;
+  },
+});
@@ -0,0 +1,11 @@
+import { parseFilters } from "@/lib/listingQuery";
+import { readStore } from "@/lib/server/db";
+import { apiRoute } from "@/lib/server/routes";
+import { computeFacets } from "@/lib/services";
+
+export default apiRoute({
+  GET: (req) => {
+    const filters = parseFilters(req.query);
+    return readStore((store) => computeFacets(store, filters));
+  },
+});
@@ -0,0 +1,13 @@
+import { parseListingQuery } from "@/lib/listingQuery";
+import { readStore } from "@/lib/server/db";
+import { apiRoute } from "@/lib/server/routes";
+import { queryListings } from "@/lib/services";
+
+export default apiRoute({
+  GET: (req) => {
+    const { filters, page, limit, sort, cursor } = parseListingQuery(req.query);
+    return readStore((store) =>
+      queryListings(store, filters, page, limit, sort, cursor)
+    );
+  },
+});
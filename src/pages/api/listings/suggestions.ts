@@ -0,0 +1,11 @@
+import { parseSuggestionQuery } from "@/lib/listingQuery";
+import { readStore } from "@/lib/server/db";
+import { apiRoute } from "@/lib/server/routes";
+import { suggestSearches } from "@/lib/services";
+
+export default apiRoute({
+  GET: (req) => {
+    const { q, limit } = parseSuggestionQuery(req.query);
+    return readStore((store) => suggestSearches(store, q, limit));
+  },
+});
@@ -0,0 +1,10 @@
+import { getPaymentProvider } from "@/lib/payments";
+import { parseChallengeBody } from "@/lib/requestBodies";
+import { apiRoute, routeParam } from "@/lib/server/routes";
+
+export default apiRoute({
+  POST: (req) => {
+    const { code } = parseChallengeBody(req.body);
+    return getPaymentProvider().authenticateIntent(routeParam(req, "id"), code);
+  },
+});
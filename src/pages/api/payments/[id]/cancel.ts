@@ -0,0 +1,6 @@
+import { getPaymentProvider } from "@/lib/payments";
+import { apiRoute, routeParam } from "@/lib/server/routes";
+
+export default apiRoute({
+  POST: (req) => getPaymentProvider().cancelIntent(routeParam(req, "id")),
+});
@@ -0,0 +1,10 @@
+import { getPaymentProvider } from "@/lib/payments";
+import { parseCardBody } from "@/lib/requestBodies";
+import { apiRoute, routeParam } from "@/lib/server/routes";
+
+export default apiRoute({
+  POST: (req) => {
+    const { card } = parseCardBody(req.body);
+    return getPaymentProvider().confirmIntent(routeParam(req, "id"), card);
+  },
+});
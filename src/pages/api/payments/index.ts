@@ -0,0 +1,10 @@
+import { getPaymentProvider } from "@/lib/payments";
+import { parsePaymentBody } from "@/lib/requestBodies";
+import { apiRoute } from "@/lib/server/routes";
+
+export default apiRoute({
+  POST: (req) => {
+    const { amount, currency } = parsePaymentBody(req.body);
+    return getPaymentProvider().createIntent(amount, currency);
+  },
+});
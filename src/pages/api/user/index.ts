@@ -0,0 +1,6 @@
+import { readStore } from "@/lib/server/db";
+import { apiRoute } from "@/lib/server/routes";
+
+export default apiRoute({
+  GET: () => readStore((store) => store.user),
+});
@@ -0,0 +1,11 @@
+import { parsePreferencesBody } from "@/lib/requestBodies";
+import { updateStore } from "@/lib/server/db";
+import { apiRoute } from "@/lib/server/routes";
+import { updatePreferences } from "@/lib/services";
+
+export default apiRoute({
+  PATCH: (req) => {
+    const preferences = parsePreferencesBody(req.body);
+    return updateStore((store) => updatePreferences(store, preferences));
+  },
+});
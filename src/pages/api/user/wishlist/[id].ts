@@ -0,0 +1,8 @@
+import { updateStore } from "@/lib/server/db";
+import { apiRoute, routeParam } from "@/lib/server/routes";
+import { removeWishlistItem } from "@/lib/services";
+
+export default apiRoute({
+  DELETE: (req) =>
+    updateStore((store) => removeWishlistItem(store, routeParam(req, "id"))),
+});
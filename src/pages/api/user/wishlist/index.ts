@@ -0,0 +1,12 @@
+import { parseWishlistBody } from "@/lib/requestBodies";
+import { readStore, updateStore } from "@/lib/server/db";
+import { apiRoute } from "@/lib/server/routes";
+import { addWishlistItem, listWishlist } from "@/lib/services";
+
+export default apiRoute({
+  GET: () => readStore((store) => listWishlist(store)),
+  POST: (req) => {
+    const { listingId } = parseWishlistBody(req.body);
+    return updateStore((store) => addWishlistItem(store, listingId));
+  },
+});
@@ -1,157 +1,474 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
 import Head from "next/head";
 import { useRouter } from "next/router";
-import { Filter, Grid, Map, Search, Loader } from "lucide-react";
+import {
+  Filter,
+  Grid,
+  Map,
+  Columns,
+  Search,
+  Loader,
+  ArrowUpDown,
+} from "lucide-react";
 import MapView from "@/components/MapView";
 import FilterDrawer from "@/components/FilterDrawer";
 import Card from "@/components/Card";
+import ErrorState from "@/components/ErrorState";
 import { Listing } from "@/lib/mockData";
 import {
   getListings,
-  searchListings,
+  countActiveFilters,
   ListingFilters,
-  PaginatedResponse,
+  ListingSortKey,
 } from "@/lib/api";
+import {
+  ExploreState,
+  ExploreViewMode,
+  MAX_LISTING_LIMIT,
+  parseExploreQuery,
+  toExploreQuery,
+} from "@/lib/listingQuery";
+import { ApiError, toApiError } from "@/lib/errors";
+import {
+  calculateDistance,
+  DEFAULT_NEAR_ME_RADIUS_KM,
+  GeoArea,
+} from "@/lib/geo";
+
+// Distance sorting is measured from here unless a location filter is set
+const CITY_CENTER = { lat: 33.5892, lng: -7.6125 };
+
+const sortOptions: {
+  value: ListingSortKey;
+  label: { en: string; fr: string };
+}[] = [
+  { value: "recommended", label: { en: "Recommended", fr: "Recommandés" } },
+  {
+    value: "price_asc",
+    label: { en: "Price: low to high", fr: "Prix : croissant" },
+  },
+  {
+    value: "price_desc",
+    label: { en: "Price: high to low", fr: "Prix : décroissant" },
+  },
+  { value: "rating", label: { en: "Top rated", fr: "Mieux notés" } },
+  { value: "reviews", label: { en: "Most reviewed", fr: "Plus d'avis" } },
+  { value: "newest", label: { en: "Newest", fr: "Plus récents" } },
+  { value: "distance", label: { en: "Distance", fr: "Distance" } },
+];
 
 interface ExplorePageProps {
   currentLanguage: "en" | "fr";
   currentTheme: "light" | "dark";
 }
 
+const PAGE_SIZE = 12;
+
+// Pages restored from the URL in the first request; further pages load again
+// as the user scrolls
+const MAX_RESTORED_PAGES = Math.floor(MAX_LISTING_LIMIT / PAGE_SIZE);
+
+// Scroll position saved when opening a listing, restored on the way back
+const SCROLL_STORAGE_KEY = "casa-wonders-explore-scroll";
+
+// Scroll back to where the user left Explore if they are returning to the
+// same results (same URL, including the number of loaded pages). The split
+// view scrolls its list instead of the window.
+function restoreScrollPosition(list: HTMLElement | null) {
+  const saved = sessionStorage.getItem(SCROLL_STORAGE_KEY);
+  if (!saved) return;
+  sessionStorage.removeItem(SCROLL_STORAGE_KEY);
+
+  try {
+    const { path, y } = JSON.parse(saved);
+    if (path === window.location.pathname + window.location.search) {
+      if (list) {
+        list.scrollTop = y;
+      } else {
+        window.scrollTo(0, y);
+      }
+    }
+  } catch {
+    // Ignore malformed entries
+  }
+}
+
 const ExplorePage: React.FC<ExplorePageProps> = ({ currentLanguage }) => {
   const router = useRouter();
-  const [viewMode, setViewMode] = useState<"list" | "map">("list");
   const [listings, setListings] = useState<Listing[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false);
-  const [filters, setFilters] = useState<ListingFilters>({});
   const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
+  const [hoveredListingId, setHoveredListingId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [hasMore, setHasMore] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
   const [page, setPage] = useState(1);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [loadMoreError, setLoadMoreError] = useState<ApiError | null>(null);
 
-  // Initialize filters from URL params
-  useEffect(() => {
-    const { category, search, ...otherParams } = router.query;
-    const initialFilters: ListingFilters = {};
+  // The URL is the source of truth for filters, search, sort, page and view,
+  // so links are shareable and back/forward restore the same results.
+  const exploreState = useMemo(
+    () => parseExploreQuery(router.query),
+    [router.query]
+  );
+  const { filters, sort, view: viewMode } = exploreState;
 
-    if (category && typeof category === "string") {
-      initialFilters.category = category as "restaurant" | "event" | "cultural";
-    }
+  // Changes to page or view mode don't need a reload
+  const resultsKey = JSON.stringify(
+    toExploreQuery({ ...exploreState, page: 1, view: "list" })
+  );
 
-    if (search && typeof search === "string") {
-      setSearchQuery(search);
-    }
+  // The router object changes on every navigation, including the URL updates
+  // made here; reading it through a ref keeps the loaders below stable so
+  // they don't retrigger the initial load
+  const routerRef = useRef(router);
+  routerRef.current = router;
+  const stateRef = useRef(exploreState);
+  stateRef.current = exploreState;
+  const requestIdRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const listContainerRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
 
-    setFilters(initialFilters);
-  }, [router.query]);
+  // Keep the search box in sync with the URL
+  useEffect(() => {
+    setSearchQuery(filters.query || "");
+  }, [filters.query]);
 
-  // Load listings
+  const updateUrl = useCallback(
+    (changes: Partial<ExploreState>, options: { replace?: boolean } = {}) => {
+      const query = toExploreQuery({ ...stateRef.current, ...changes });
+      const url = { pathname: "/explore", query };
+      if (options.replace) {
+        routerRef.current.replace(url, undefined, { shallow: true });
+      } else {
+        routerRef.current.push(url, undefined, { shallow: true });
+      }
+    },
+    []
+  );
+
+  // Load listings. On first load `pageCount` restores the pages listed in
+  // the URL (up to MAX_RESTORED_PAGES) in a single request; later pages
+  // continue from the cursor.
   const loadListings = useCallback(
-    async (pageNum: number, reset = false) => {
+    async (pageNum: number, requestedPageCount = 1, cursor?: string) => {
+      const requestId = ++requestIdRef.current;
+      const { filters, sort } = stateRef.current;
+      const pageCount = Math.min(requestedPageCount, MAX_RESTORED_PAGES);
+
       if (pageNum === 1) {
         setIsLoading(true);
+        setLoadError(null);
       } else {
         setIsLoadingMore(true);
       }
+      setLoadMoreError(null);
 
       try {
-        let response: PaginatedResponse<Listing>;
-
-        if (searchQuery.trim()) {
-          // If there's a search query, use search API
-          const searchResults = await searchListings(searchQuery);
-          response = {
-            data: searchResults,
-            total: searchResults.length,
-            page: 1,
-            limit: searchResults.length,
-            hasMore: false,
-          };
-        } else {
-          // Otherwise use regular listings with filters
-          response = await getListings(filters, pageNum, 12);
-        }
+        // The text query is just another filter, so search results are
+        // filtered, sorted and paginated like any other listing query
+        const sortOption = {
+          key: sort,
+          origin: filters.location || CITY_CENTER,
+        };
+        const response =
+          pageNum === 1
+            ? await getListings(filters, 1, PAGE_SIZE * pageCount, sortOption)
+            : await getListings(
+                filters,
+                pageNum,
+                PAGE_SIZE,
+                sortOption,
+                cursor
+              );
 
-        if (reset || pageNum === 1) {
+        // A newer request superseded this one
+        if (requestId !== requestIdRef.current) return;
+
+        if (pageNum === 1) {
           setListings(response.data);
+          setPage(pageCount);
+          if (pageCount !== requestedPageCount) {
+            updateUrl({ page: pageCount }, { replace: true });
+          }
         } else {
           setListings((prev) => [...prev, ...response.data]);
+          setPage(pageNum);
+          updateUrl({ page: pageNum }, { replace: true });
         }
 
         setHasMore(response.hasMore);
-        setPage(pageNum);
+        setNextCursor(response.nextCursor);
+        setTotal(response.total);
       } catch (error) {
+        if (requestId !== requestIdRef.current) return;
         console.error("Failed to load listings:", error);
+        if (pageNum === 1) {
+          setLoadError(toApiError(error));
+        } else {
+          setLoadMoreError(toApiError(error));
+        }
       } finally {
-        setIsLoading(false);
-        setIsLoadingMore(false);
+        if (requestId === requestIdRef.current) {
+          setIsLoading(false);
+          setIsLoadingMore(false);
+        }
       }
     },
-    [filters, searchQuery]
+    [updateUrl]
   );
 
-  // Initial load and reload when filters change
+  // Once the first results have rendered
+  const hasRestoredScrollRef = useRef(false);
   useEffect(() => {
-    loadListings(1, true);
-  }, [loadListings]);
+    if (isLoading || hasRestoredScrollRef.current) return;
+    hasRestoredScrollRef.current = true;
+    restoreScrollPosition(
+      viewMode === "split" ? listContainerRef.current : null
+    );
+  }, [isLoading]);
+
+  // Initial load and reload when filters, search or sort change
+  useEffect(() => {
+    if (!router.isReady) return;
+    loadListings(1, stateRef.current.page);
+  }, [resultsKey, router.isReady]);
 
   // Handle search
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchQuery.trim()) {
-      router.push(`/explore?search=${encodeURIComponent(searchQuery.trim())}`);
-    } else {
-      router.push("/explore");
-    }
+    updateUrl({
+      filters: { ...filters, query: searchQuery.trim() || undefined },
+      page: 1,
+    });
   };
 
   // Handle filter apply
   const handleFilterApply = (newFilters: ListingFilters) => {
-    setFilters(newFilters);
     setSelectedListing(null);
+    // The drawer doesn't edit the text query, so keep the current one
+    updateUrl({
+      filters: { ...newFilters, query: filters.query },
+      // Turning on "near me" also orders results by distance
+      sort:
+        newFilters.location && !filters.location && sort === "recommended"
+          ? "distance"
+          : sort,
+      page: 1,
+    });
+  };
 
-    // Update URL with filters
-    const params = new URLSearchParams();
-    if (newFilters.category) params.set("category", newFilters.category);
-    if (searchQuery) params.set("search", searchQuery);
-
-    const queryString = params.toString();
-    router.push(`/explore${queryString ? `?${queryString}` : ""}`, undefined, {
-      shallow: true,
+  // Handle "near me" from the map
+  const handleNearMe = (position: { lat: number; lng: number }) => {
+    updateUrl({
+      filters: {
+        ...filters,
+        location: {
+          ...position,
+          radius: filters.location?.radius ?? DEFAULT_NEAR_ME_RADIUS_KM,
+        },
+      },
+      sort: "distance",
+      page: 1,
     });
   };
 
+  const handleSearchAreaChange = (area?: GeoArea) => {
+    updateUrl({ filters: { ...filters, area }, page: 1 });
+  };
+
+  // Distance from the "near me" location, when there is one
+  const getDistance = (listing: Listing) =>
+    filters.location &&
+    calculateDistance(
+      filters.location.lat,
+      filters.location.lng,
+      listing.location.lat,
+      listing.location.lng
+    );
+
+  // Handle sort change
+  const handleSortChange = (newSort: ListingSortKey) => {
+    updateUrl({ sort: newSort, page: 1 });
+  };
+
+  // Handle view mode change
+  const handleViewModeChange = (view: ExploreViewMode) => {
+    updateUrl({ view });
+  };
+
   // Handle load more
-  const handleLoadMore = () => {
-    if (hasMore && !isLoadingMore) {
-      loadListings(page + 1);
+  const handleLoadMore = useCallback(() => {
+    if (hasMore && nextCursor && !isLoadingMore) {
+      loadListings(page + 1, 1, nextCursor);
     }
-  };
+  }, [hasMore, nextCursor, isLoadingMore, loadListings, page]);
+
+  // Infinite scroll: load the next page as the end of the grid comes into
+  // view. Stops after a failed load until the user retries.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || loadMoreError) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) handleLoadMore();
+      },
+      // The split view scrolls its own list rather than the page
+      {
+        root: viewMode === "split" ? listContainerRef.current : null,
+        rootMargin: "400px",
+      }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [handleLoadMore, loadMoreError, listings.length, viewMode]);
 
   // Handle listing click in map mode
   const handleListingClick = (listing: Listing) => {
     setSelectedListing(listing);
   };
 
+  // In the split view a clicked marker brings its card into view
+  useEffect(() => {
+    if (viewMode !== "split" || !selectedListing) return;
+    cardRefs.current[selectedListing.id]?.scrollIntoView({
+      behavior: "smooth",
+      block: "nearest",
+    });
+  }, [selectedListing, viewMode]);
+
   // Handle listing card click
   const handleListingCardClick = (listing: Listing) => {
+    sessionStorage.setItem(
+      SCROLL_STORAGE_KEY,
+      JSON.stringify({
+        path: router.asPath,
+        y:
+          viewMode === "split"
+            ? listContainerRef.current?.scrollTop ?? 0
+            : window.scrollY,
+      })
+    );
     router.push(`/listing/${listing.id}`);
   };
 
-  const getActiveFiltersCount = () => {
-    let count = 0;
-    if (filters.category) count++;
-    if (filters.minPrice !== undefined || filters.maxPrice !== undefined)
-      count++;
-    if (filters.minRating) count++;
-    if (filters.date) count++;
-    if (filters.location) count++;
-    return count;
-  };
+  const activeFiltersCount = countActiveFilters(filters);
+
+  // Results grid with its loading, error and empty states, shared by the
+  // list and split views
+  const renderResults = () => {
+    const gridClassName =
+      viewMode === "split"
+        ? "grid grid-cols-1 md:grid-cols-2 gap-6"
+        : "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6";
+
+    return isLoading ? (
+      <div className={gridClassName}>
+        {Array.from({ length: 8 }).map((_, index) => (
+          <div
+            key={index}
+            className="bg-white dark:bg-gray-800 rounded-2xl overflow-hidden animate-pulse"
+          >
+            <div className="h-48 bg-gray-200 dark:bg-gray-700"></div>
+            <div className="p-4 space-y-3">
+              <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded"></div>
+              <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-3/4"></div>
+              <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+            </div>
+          </div>
+        ))}
+      </div>
+    ) : loadError ? (
+      <ErrorState
+        error={loadError}
+        onRetry={() => loadListings(1, exploreState.page)}
+        currentLanguage={currentLanguage}
+      />
+    ) : listings.length === 0 ? (
+      <div className="text-center py-16">
+        <div className="w-16 h-16 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Search className="w-8 h-8 text-gray-400" />
+        </div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+          {currentLanguage === "en"
+            ? "No experiences found"
+            : "Aucune expérience trouvée"}
+        </h3>
+        <p className="text-gray-600 dark:text-gray-400">
+          {currentLanguage === "en"
+            ? "Try adjusting your filters or search terms"
+            : "Essayez d'ajuster vos filtres ou termes de recherche"}
+        </p>
+      </div>
+    ) : (
+      <>
+        <div className={gridClassName}>
+          {listings.map((listing) => (
+            <div
+              key={listing.id}
+              ref={(element) => {
+                cardRefs.current[listing.id] = element;
+              }}
+              onClick={() => handleListingCardClick(listing)}
+              onMouseEnter={() => setHoveredListingId(listing.id)}
+              onMouseLeave={() => setHoveredListingId(null)}
+              className={`rounded-2xl transition-shadow ${
+                viewMode === "split" && selectedListing?.id === listing.id
+                  ? "ring-2 ring-accent ring-offset-2 dark:ring-offset-gray-900"
+                  : ""
+              }`}
+            >
+              <Card
+                listing={listing}
+                currentLanguage={currentLanguage}
+                isWishlisted={false} // This would come from user state
+                onWishlistChange={() => {}} // Handle wishlist changes
+                highlight={filters.query}
+                distance={getDistance(listing)}
+              />
+            </div>
+          ))}
+        </div>
 
-  const activeFiltersCount = getActiveFiltersCount();
+        {/* Infinite Scroll */}
+        {hasMore && (
+          <div ref={sentinelRef} className="text-center mt-12">
+            {loadMoreError ? (
+              <div className="max-w-md mx-auto text-left">
+                <ErrorState
+                  error={loadMoreError}
+                  onRetry={handleLoadMore}
+                  currentLanguage={currentLanguage}
+                  compact
+                />
+              </div>
+            ) : (
+              isLoadingMore && (
+                <div className="flex items-center justify-center space-x-2 text-gray-600 dark:text-gray-400">
+                  <Loader className="w-4 h-4 animate-spin" />
+                  <span>
+                    {currentLanguage === "en" ? "Loading..." : "Chargement..."}
+                  </span>
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </>
+    );
+  };
 
   return (
     <>
@@ -192,14 +509,14 @@ const ExplorePage: React.FC<ExplorePageProps> = ({ currentLanguage }) => {
                     )
                   ) : (
                     <>
-                      {listings.length}{" "}
+                      {total}{" "}
                       {currentLanguage === "en"
                         ? "experiences found"
                         : "expériences trouvées"}
-                      {searchQuery && (
+                      {filters.query && (
                         <span className="ml-1">
                           {currentLanguage === "en" ? "for" : "pour"} "
-                          {searchQuery}"
+                          {filters.query}"
                         </span>
                       )}
                     </>
@@ -227,6 +544,27 @@ const ExplorePage: React.FC<ExplorePageProps> = ({ currentLanguage }) => {
                   </div>
                 </form>
 
+                {/* Sort */}
+                <div className="relative">
+                  <select
+                    value={sort}
+                    onChange={(e) =>
+                      handleSortChange(e.target.value as ListingSortKey)
+                    }
+                    aria-label={
+                      currentLanguage === "en" ? "Sort by" : "Trier par"
+                    }
+                    className="appearance-none pl-9 pr-4 py-2 border border-gray-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent"
+                  >
+                    {sortOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label[currentLanguage]}
+                      </option>
+                    ))}
+                  </select>
+                  <ArrowUpDown className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+                </div>
+
                 {/* Filter Button */}
                 <button
                   onClick={() => setIsFilterDrawerOpen(true)}
@@ -243,7 +581,7 @@ const ExplorePage: React.FC<ExplorePageProps> = ({ currentLanguage }) => {
                 {/* View Toggle */}
                 <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
                   <button
-                    onClick={() => setViewMode("list")}
+                    onClick={() => handleViewModeChange("list")}
                     className={`p-2 rounded-md transition-colors ${
                       viewMode === "list"
                         ? "bg-white dark:bg-gray-600 text-accent shadow-sm"
@@ -253,7 +591,7 @@ const ExplorePage: React.FC<ExplorePageProps> = ({ currentLanguage }) => {
                     <Grid className="w-4 h-4" />
                   </button>
                   <button
-                    onClick={() => setViewMode("map")}
+                    onClick={() => handleViewModeChange("map")}
                     className={`p-2 rounded-md transition-colors ${
                       viewMode === "map"
                         ? "bg-white dark:bg-gray-600 text-accent shadow-sm"
@@ -262,6 +600,21 @@ const ExplorePage: React.FC<ExplorePageProps> = ({ currentLanguage }) => {
                   >
                     <Map className="w-4 h-4" />
                   </button>
+                  <button
+                    onClick={() => handleViewModeChange("split")}
+                    className={`hidden lg:block p-2 rounded-md transition-colors ${
+                      viewMode === "split"
+                        ? "bg-white dark:bg-gray-600 text-accent shadow-sm"
+                        : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200"
+                    }`}
+                    title={
+                      currentLanguage === "en"
+                        ? "List and map"
+                        : "Liste et carte"
+                    }
+                  >
+                    <Columns className="w-4 h-4" />
+                  </button>
                 </div>
               </div>
             </div>
@@ -288,86 +641,36 @@ const ExplorePage: React.FC<ExplorePageProps> = ({ currentLanguage }) => {
 
         {/* Content */}
         {viewMode === "list" ? (
+          <div className="max-w-7xl mx-auto px-4 py-8">{renderResults()}</div>
+        ) : viewMode === "split" ? (
+          <div className="flex h-[calc(100vh-200px)]">
+            <div
+              ref={listContainerRef}
+              className="w-full lg:w-1/2 xl:w-3/5 overflow-y-auto px-4 py-6"
+            >
+              {renderResults()}
+            </div>
+            <div className="hidden lg:block lg:w-1/2 xl:w-2/5">
+              <MapView
+                listings={listings}
+                onListingClick={handleListingClick}
+                currentLanguage={currentLanguage}
+                height="100%"
+                userLocation={filters.location}
+                onNearMe={handleNearMe}
+                searchArea={filters.area}
+                onSearchAreaChange={handleSearchAreaChange}
+                highlightedListingId={hoveredListingId ?? selectedListing?.id}
+              />
+            </div>
+          </div>
+        ) : loadError && !isLoading ? (
           <div className="max-w-7xl mx-auto px-4 py-8">
-            {isLoading ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                {Array.from({ length: 8 }).map((_, index) => (
-                  <div
-                    key={index}
-                    className="bg-white dark:bg-gray-800 rounded-2xl overflow-hidden animate-pulse"
-                  >
-                    <div className="h-48 bg-gray-200 dark:bg-gray-700"></div>
-                    <div className="p-4 space-y-3">
-                      <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded"></div>
-                      <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-3/4"></div>
-                      <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            ) : listings.length === 0 ? (
-              <div className="text-center py-16">
-                <div className="w-16 h-16 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-4">
-                  <Search className="w-8 h-8 text-gray-400" />
-                </div>
-                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-                  {currentLanguage === "en"
-                    ? "No experiences found"
-                    : "Aucune expérience trouvée"}
-                </h3>
-                <p className="text-gray-600 dark:text-gray-400">
-                  {currentLanguage === "en"
-                    ? "Try adjusting your filters or search terms"
-                    : "Essayez d'ajuster vos filtres ou termes de recherche"}
-                </p>
-              </div>
-            ) : (
-              <>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                  {listings.map((listing) => (
-                    <div
-                      key={listing.id}
-                      onClick={() => handleListingCardClick(listing)}
-                    >
-                      <Card
-                        listing={listing}
-                        currentLanguage={currentLanguage}
-                        isWishlisted={false} // This would come from user state
-                        onWishlistChange={() => {}} // Handle wishlist changes
-                      />
-                    </div>
-                  ))}
-                </div>
-
-                {/* Load More Button */}
-                {hasMore && (
-                  <div className="text-center mt-12">
-                    <button
-                      onClick={handleLoadMore}
-                      disabled={isLoadingMore}
-                      className="bg-accent text-white px-8 py-3 rounded-lg font-medium hover:bg-accent/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2 mx-auto"
-                    >
-                      {isLoadingMore ? (
-                        <>
-                          <Loader className="w-4 h-4 animate-spin" />
-                          <span>
-                            {currentLanguage === "en"
-                              ? "Loading..."
-                              : "Chargement..."}
-                          </span>
-                        </>
-                      ) : (
-                        <span>
-                          {currentLanguage === "en"
-                            ? "Load More"
-                            : "Charger Plus"}
-                        </span>
-                      )}
-                    </button>
-                  </div>
-                )}
-              </>
-            )}
+            <ErrorState
+              error={loadError}
+              onRetry={() => loadListings(1, exploreState.page)}
+              currentLanguage={currentLanguage}
+            />
           </div>
         ) : (
           <div className="h-[calc(100vh-200px)]">
@@ -377,6 +680,10 @@ const ExplorePage: React.FC<ExplorePageProps> = ({ currentLanguage }) => {
               selectedListing={selectedListing}
               currentLanguage={currentLanguage}
               height="100%"
+              userLocation={filters.location}
+              onNearMe={handleNearMe}
+              searchArea={filters.area}
+              onSearchAreaChange={handleSearchAreaChange}
             />
           </div>
         )}
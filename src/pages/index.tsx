@@ -5,8 +5,10 @@ import { Filter, Search, MapPin, TrendingUp } from "lucide-react";
 import MapView from "@/components/MapView";
 import FilterDrawer from "@/components/FilterDrawer";
 import Card from "@/components/Card";
+import ErrorState from "@/components/ErrorState";
 import { Listing } from "@/lib/mockData";
-import { getListings, ListingFilters } from "@/lib/api";
+import { getListings, countActiveFilters, ListingFilters } from "@/lib/api";
+import { ApiError, toApiError } from "@/lib/errors";
 
 interface HomePageProps {
   currentLanguage: "en" | "fr";
@@ -20,23 +22,27 @@ const HomePage: React.FC<HomePageProps> = ({ currentLanguage }) => {
   const [isFilterDrawerOpen, setIsFilterDrawerOpen] = useState(false);
   const [filters, setFilters] = useState<ListingFilters>({});
   const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
 
   // Load initial listings
   useEffect(() => {
     const loadListings = async () => {
       setIsLoading(true);
+      setLoadError(null);
       try {
         const response = await getListings(filters, 1, 50); // Load more for map view
         setListings(response.data);
       } catch (error) {
         console.error("Failed to load listings:", error);
+        setLoadError(toApiError(error));
       } finally {
         setIsLoading(false);
       }
     };
 
     loadListings();
-  }, [filters]);
+  }, [filters, retryCount]);
 
   const handleFilterApply = (newFilters: ListingFilters) => {
     setFilters(newFilters);
@@ -53,18 +59,7 @@ const HomePage: React.FC<HomePageProps> = ({ currentLanguage }) => {
 
   const featuredListings = listings.slice(0, 6);
 
-  const getActiveFiltersCount = () => {
-    let count = 0;
-    if (filters.category) count++;
-    if (filters.minPrice !== undefined || filters.maxPrice !== undefined)
-      count++;
-    if (filters.minRating) count++;
-    if (filters.date) count++;
-    if (filters.location) count++;
-    return count;
-  };
-
-  const activeFiltersCount = getActiveFiltersCount();
+  const activeFiltersCount = countActiveFilters(filters);
 
   return (
     <>
@@ -162,7 +157,7 @@ const HomePage: React.FC<HomePageProps> = ({ currentLanguage }) => {
                 <div className="grid grid-cols-2 gap-3">
                   <button
                     onClick={() => {
-                      setFilters({ category: "restaurant" });
+                      setFilters({ category: ["restaurant"] });
                       router.push("/explore?category=restaurant");
                     }}
                     className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-xl text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors"
@@ -173,7 +168,7 @@ const HomePage: React.FC<HomePageProps> = ({ currentLanguage }) => {
                   </button>
                   <button
                     onClick={() => {
-                      setFilters({ category: "cultural" });
+                      setFilters({ category: ["cultural"] });
                       router.push("/explore?category=cultural");
                     }}
                     className="p-4 bg-green-50 dark:bg-green-900/20 rounded-xl text-green-600 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/30 transition-colors"
@@ -184,7 +179,7 @@ const HomePage: React.FC<HomePageProps> = ({ currentLanguage }) => {
                   </button>
                   <button
                     onClick={() => {
-                      setFilters({ category: "event" });
+                      setFilters({ category: ["event"] });
                       router.push("/explore?category=event");
                     }}
                     className="p-4 bg-purple-50 dark:bg-purple-900/20 rounded-xl text-purple-600 dark:text-purple-400 hover:bg-purple-100 dark:hover:bg-purple-900/30 transition-colors col-span-2"
@@ -214,6 +209,14 @@ const HomePage: React.FC<HomePageProps> = ({ currentLanguage }) => {
                     </p>
                   </div>
                 </div>
+              ) : loadError ? (
+                <div className="h-full bg-gray-100 dark:bg-gray-800 flex items-center justify-center rounded-t-2xl lg:rounded-none px-4">
+                  <ErrorState
+                    error={loadError}
+                    onRetry={() => setRetryCount((count) => count + 1)}
+                    currentLanguage={currentLanguage}
+                  />
+                </div>
               ) : (
                 <div className="h-full rounded-t-2xl lg:rounded-none overflow-hidden">
                   <MapView
@@ -334,7 +337,7 @@ const HomePage: React.FC<HomePageProps> = ({ currentLanguage }) => {
               <div
                 className="group cursor-pointer"
                 onClick={() => {
-                  setFilters({ category: "restaurant" });
+                  setFilters({ category: ["restaurant"] });
                   router.push("/explore?category=restaurant");
                 }}
               >
@@ -364,7 +367,7 @@ const HomePage: React.FC<HomePageProps> = ({ currentLanguage }) => {
               <div
                 className="group cursor-pointer"
                 onClick={() => {
-                  setFilters({ category: "cultural" });
+                  setFilters({ category: ["cultural"] });
                   router.push("/explore?category=cultural");
                 }}
               >
@@ -398,7 +401,7 @@ const HomePage: React.FC<HomePageProps> = ({ currentLanguage }) => {
               <div
                 className="group cursor-pointer"
                 onClick={() => {
-                  setFilters({ category: "event" });
+                  setFilters({ category: ["event"] });
                   router.push("/explore?category=event");
                 }}
               >
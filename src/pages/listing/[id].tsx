@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import Head from "next/head";
 import { useRouter } from "next/router";
 import { GetServerSideProps } from "next";
@@ -18,8 +18,12 @@ import {
 } from "lucide-react";
 import { Listing } from "@/lib/mockData";
 import { getListing, addToWishlist, removeFromWishlist } from "@/lib/api";
+import { ApiError, NotFoundError, toApiError } from "@/lib/errors";
 import BookingModal from "@/components/BookingModal";
+import ErrorState from "@/components/ErrorState";
 import MapView from "@/components/MapView";
+import DirectionsPanel from "@/components/DirectionsPanel";
+import { LatLng } from "@/lib/geo";
 
 interface ListingDetailPageProps {
   listing: Listing | null;
@@ -37,24 +41,49 @@ const ListingDetailPage: React.FC<ListingDetailPageProps> = ({
   const [activeTab, setActiveTab] = useState<
     "overview" | "details" | "location"
   >("overview");
+  const [routePath, setRoutePath] = useState<LatLng[]>();
   const [isWishlisted, setIsWishlisted] = useState(false);
   const [isWishlistLoading, setIsWishlistLoading] = useState(false);
   const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
+  const [fetchError, setFetchError] = useState<ApiError | null>(null);
+  const [wishlistError, setWishlistError] = useState<ApiError | null>(null);
+
+  const fetchListing = useCallback(async (id: string) => {
+    setFetchError(null);
+    try {
+      const fetchedListing = await getListing(id);
+      setListing(fetchedListing);
+      if (!fetchedListing) {
+        setFetchError(new NotFoundError(`Listing ${id} not found`));
+      }
+    } catch (error) {
+      console.error("Failed to fetch listing:", error);
+      setFetchError(toApiError(error));
+    }
+  }, []);
 
   // If we don't have listing from SSR, try to fetch it
   useEffect(() => {
     if (!listing && router.query.id) {
-      const fetchListing = async () => {
-        try {
-          const fetchedListing = await getListing(router.query.id as string);
-          setListing(fetchedListing);
-        } catch (error) {
-          console.error("Failed to fetch listing:", error);
-        }
-      };
-      fetchListing();
+      fetchListing(router.query.id as string);
     }
-  }, [listing, router.query.id]);
+  }, [listing, router.query.id, fetchListing]);
+
+  if (!listing && fetchError) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4">
+        <ErrorState
+          error={fetchError}
+          onRetry={
+            fetchError.kind === "not_found"
+              ? undefined
+              : () => fetchListing(router.query.id as string)
+          }
+          currentLanguage={currentLanguage}
+        />
+      </div>
+    );
+  }
 
   if (!listing) {
     return (
@@ -96,6 +125,7 @@ const ListingDetailPage: React.FC<ListingDetailPageProps> = ({
 
   const handleWishlistClick = async () => {
     setIsWishlistLoading(true);
+    setWishlistError(null);
     try {
       if (isWishlisted) {
         await removeFromWishlist(listing.id);
@@ -106,6 +136,7 @@ const ListingDetailPage: React.FC<ListingDetailPageProps> = ({
       }
     } catch (error) {
       console.error("Failed to update wishlist:", error);
+      setWishlistError(toApiError(error));
     } finally {
       setIsWishlistLoading(false);
     }
@@ -196,6 +227,17 @@ const ListingDetailPage: React.FC<ListingDetailPageProps> = ({
         </div>
 
         <div className="max-w-7xl mx-auto px-4 py-8">
+          {wishlistError && (
+            <div className="mb-6">
+              <ErrorState
+                error={wishlistError}
+                onRetry={handleWishlistClick}
+                currentLanguage={currentLanguage}
+                compact
+              />
+            </div>
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Main Content */}
             <div className="lg:col-span-2 space-y-8">
@@ -339,7 +381,11 @@ const ListingDetailPage: React.FC<ListingDetailPageProps> = ({
                     {tabs.map((tab) => (
                       <button
                         key={tab.id}
-                        onClick={() => setActiveTab(tab.id as any)}
+                        onClick={() => {
+                          setActiveTab(tab.id as any);
+                          // Directions are cleared along with the tab
+                          setRoutePath(undefined);
+                        }}
                         className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
                           activeTab === tab.id
                             ? "border-accent text-accent"
@@ -423,7 +469,9 @@ const ListingDetailPage: React.FC<ListingDetailPageProps> = ({
                               <div className="flex items-center space-x-2">
                                 <Clock className="w-4 h-4 text-gray-400" />
                                 <span className="text-gray-600 dark:text-gray-400">
-                                  {day.slots.join(", ")}
+                                  {day.slots
+                                    .map((slot) => slot.time)
+                                    .join(", ")}
                                 </span>
                               </div>
                             </div>
@@ -502,8 +550,15 @@ const ListingDetailPage: React.FC<ListingDetailPageProps> = ({
                           zoom={15}
                           height="100%"
                           currentLanguage={currentLanguage}
+                          routePath={routePath}
                         />
                       </div>
+
+                      <DirectionsPanel
+                        destination={listing.location}
+                        currentLanguage={currentLanguage}
+                        onRouteChange={(route) => setRoutePath(route?.path)}
+                      />
                     </div>
                   )}
                 </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import Head from "next/head";
 import { useRouter } from "next/router";
 import {
@@ -20,8 +20,10 @@ import {
   Camera,
   LogOut,
 } from "lucide-react";
+import ErrorState from "@/components/ErrorState";
 import { Booking, User as UserType } from "@/lib/mockData";
 import { getUser, getBookings, updateUserPreferences } from "@/lib/api";
+import { ApiError, toApiError } from "@/lib/errors";
 
 interface ProfilePageProps {
   currentLanguage: "en" | "fr";
@@ -45,28 +47,32 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
   >("overview");
   const [isEditingProfile, setIsEditingProfile] = useState(false);
   const [editForm, setEditForm] = useState({ name: "", email: "" });
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [actionError, setActionError] = useState<ApiError | null>(null);
 
   // Load user data and bookings
-  useEffect(() => {
-    const loadUserData = async () => {
-      setIsLoading(true);
-      try {
-        const [userData, userBookings] = await Promise.all([
-          getUser(),
-          getBookings(),
-        ]);
-        setUser(userData);
-        setBookings(userBookings);
-        setEditForm({ name: userData.name, email: userData.email });
-      } catch (error) {
-        console.error("Failed to load user data:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const loadUserData = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const [userData, userBookings] = await Promise.all([
+        getUser(),
+        getBookings(),
+      ]);
+      setUser(userData);
+      setBookings(userBookings);
+      setEditForm({ name: userData.name, email: userData.email });
+    } catch (error) {
+      console.error("Failed to load user data:", error);
+      setLoadError(toApiError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
 
+  useEffect(() => {
     loadUserData();
-  }, []);
+  }, [loadUserData]);
 
   const tabs = [
     {
@@ -135,6 +141,7 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
   };
 
   const handleSaveProfile = async () => {
+    setActionError(null);
     try {
       // Update user profile (mock implementation)
       if (user) {
@@ -148,12 +155,14 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
       }
     } catch (error) {
       console.error("Failed to update profile:", error);
+      setActionError(toApiError(error));
     }
   };
 
   const handlePreferenceUpdate = async (
     preferences: Partial<UserType["preferences"]>
   ) => {
+    setActionError(null);
     try {
       if (user) {
         const updatedUser = await updateUserPreferences(preferences);
@@ -161,6 +170,7 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
       }
     } catch (error) {
       console.error("Failed to update preferences:", error);
+      setActionError(toApiError(error));
     }
   };
 
@@ -179,6 +189,18 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
     );
   }
 
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center px-4">
+        <ErrorState
+          error={loadError}
+          onRetry={loadUserData}
+          currentLanguage={currentLanguage}
+        />
+      </div>
+    );
+  }
+
   if (!user) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
@@ -307,6 +329,16 @@ const ProfilePage: React.FC<ProfilePageProps> = ({
 
         {/* Content */}
         <div className="max-w-7xl mx-auto px-4 py-8">
+          {actionError && (
+            <div className="mb-6">
+              <ErrorState
+                error={actionError}
+                currentLanguage={currentLanguage}
+                compact
+              />
+            </div>
+          )}
+
           {activeTab === "overview" && (
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               {/* Stats Cards */}
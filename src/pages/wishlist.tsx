@@ -1,11 +1,13 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import Head from "next/head";
 import { useRouter } from "next/router";
 import { Heart, Grid, List as ListIcon, Trash2 } from "lucide-react";
 import Card from "@/components/Card";
 import BookingModal from "@/components/BookingModal";
+import ErrorState from "@/components/ErrorState";
 import { Listing } from "@/lib/mockData";
 import { getWishlist, removeFromWishlist } from "@/lib/api";
+import { ApiError, toApiError } from "@/lib/errors";
 
 interface WishlistPageProps {
   currentLanguage: "en" | "fr";
@@ -19,23 +21,27 @@ const WishlistPage: React.FC<WishlistPageProps> = ({ currentLanguage }) => {
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
   const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [actionError, setActionError] = useState<ApiError | null>(null);
 
   // Load wishlist
-  useEffect(() => {
-    const loadWishlist = async () => {
-      setIsLoading(true);
-      try {
-        const wishlistItems = await getWishlist();
-        setListings(wishlistItems);
-      } catch (error) {
-        console.error("Failed to load wishlist:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const loadWishlist = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const wishlistItems = await getWishlist();
+      setListings(wishlistItems);
+    } catch (error) {
+      console.error("Failed to load wishlist:", error);
+      setLoadError(toApiError(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
 
+  useEffect(() => {
     loadWishlist();
-  }, []);
+  }, [loadWishlist]);
 
   const handleWishlistChange = async (
     listingId: string,
@@ -44,14 +50,15 @@ const WishlistPage: React.FC<WishlistPageProps> = ({ currentLanguage }) => {
     if (!isWishlisted) {
       // Remove from local state immediately for better UX
       setListings((prev) => prev.filter((listing) => listing.id !== listingId));
+      setActionError(null);
 
       try {
         await removeFromWishlist(listingId);
       } catch (error) {
         console.error("Failed to remove from wishlist:", error);
+        setActionError(toApiError(error));
         // Reload the wishlist on error
-        const wishlistItems = await getWishlist();
-        setListings(wishlistItems);
+        loadWishlist();
       }
     }
   };
@@ -75,6 +82,7 @@ const WishlistPage: React.FC<WishlistPageProps> = ({ currentLanguage }) => {
           : "Êtes-vous sûr de vouloir vider toute votre liste de souhaits?"
       )
     ) {
+      setActionError(null);
       try {
         // Remove all items
         await Promise.all(
@@ -83,6 +91,8 @@ const WishlistPage: React.FC<WishlistPageProps> = ({ currentLanguage }) => {
         setListings([]);
       } catch (error) {
         console.error("Failed to clear wishlist:", error);
+        setActionError(toApiError(error));
+        loadWishlist();
       }
     }
   };
@@ -178,6 +188,16 @@ const WishlistPage: React.FC<WishlistPageProps> = ({ currentLanguage }) => {
 
         {/* Content */}
         <div className="max-w-7xl mx-auto px-4 py-8">
+          {actionError && (
+            <div className="mb-6">
+              <ErrorState
+                error={actionError}
+                currentLanguage={currentLanguage}
+                compact
+              />
+            </div>
+          )}
+
           {isLoading ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
               {Array.from({ length: 8 }).map((_, index) => (
@@ -194,6 +214,12 @@ const WishlistPage: React.FC<WishlistPageProps> = ({ currentLanguage }) => {
                 </div>
               ))}
             </div>
+          ) : loadError ? (
+            <ErrorState
+              error={loadError}
+              onRetry={loadWishlist}
+              currentLanguage={currentLanguage}
+            />
           ) : listings.length === 0 ? (
             <div className="text-center py-16">
               <div className="w-20 h-20 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-6">